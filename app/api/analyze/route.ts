@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RequestError } from '@/lib/errors'
+import { prepareOptimization, runAnalysis } from '@/lib/pipeline'
+
+// Scores a prompt against its type's meta-prompt without rewriting it. Takes
+// the same prompt, type, provider, engine options, version and target as
+// `/api/optimize`.
+export async function POST(request: NextRequest) {
+  try {
+    const { prompt, type, provider, options, metaPromptVersion, target } = await request.json()
+
+    if (!prompt || !type) {
+      return NextResponse.json(
+        { error: 'Prompt and type are required' },
+        { status: 400 }
+      )
+    }
+
+    const context = await prepareOptimization(
+      { prompt, type, provider, options, metaPromptVersion, target },
+      { logRuns: false }
+    )
+    return NextResponse.json(await runAnalysis(context, request.signal))
+  } catch (error) {
+    console.error('Error analyzing prompt:', error)
+    if (error instanceof RequestError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to analyze prompt', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { formatBatchResults } from '@/lib/batch'
+import { getBatch, getBatchRows, resumeBatch } from '@/lib/batches'
+import { RequestError } from '@/lib/errors'
+
+interface BatchRouteContext {
+  params: Promise<{ id: string }>
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof RequestError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.status }
+    )
+  }
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  )
+}
+
+// The job's status, counts and per-item results. `?format=csv` or
+// `?format=jsonl` downloads the results in the batch upload format instead.
+export async function GET(request: NextRequest, { params }: BatchRouteContext) {
+  try {
+    const { id } = await params
+    const format = request.nextUrl.searchParams.get('format')
+    if (format === null) {
+      return NextResponse.json(await getBatch(id))
+    }
+    if (format !== 'csv' && format !== 'jsonl') {
+      throw new RequestError(`Unknown format: ${format}`)
+    }
+
+    return new Response(formatBatchResults(await getBatchRows(id), format), {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="batch-${id}.${format}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error loading batch:', error)
+    return errorResponse(error, 'Failed to load batch')
+  }
+}
+
+// Resumes the job: items that failed or never ran are optimized again, while
+// finished ones keep their results
+export async function POST(_request: NextRequest, { params }: BatchRouteContext) {
+  try {
+    const { id } = await params
+    return NextResponse.json(await resumeBatch(id), { status: 202 })
+  } catch (error) {
+    console.error('Error resuming batch:', error)
+    return errorResponse(error, 'Failed to resume batch')
+  }
+}
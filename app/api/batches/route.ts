@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createBatch, parseBatchRequest } from '@/lib/batches'
+import { RequestError } from '@/lib/errors'
+
+// Queues `{ items: [{ id, prompt, type, advancedFields, target }], provider,
+// options, metaPromptVersion, reask, mode, budget }` and returns the job at
+// once; poll GET /api/batches/:id for progress and results
+export async function POST(request: NextRequest) {
+  try {
+    const batch = await createBatch(parseBatchRequest(await request.json()))
+    return NextResponse.json(batch, { status: 202 })
+  } catch (error) {
+    console.error('Error creating batch:', error)
+    if (error instanceof RequestError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to create batch' },
+      { status: 500 }
+    )
+  }
+}
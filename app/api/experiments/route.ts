@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RequestError } from '@/lib/errors'
+import { getExperimentReport } from '@/lib/experiments'
+import { listMetaPromptVersions } from '@/lib/optimizer'
+import { listPromptTypes } from '@/lib/prompt-types'
+
+// Per-version traffic, token usage and ratings, for one type (`?type=image`)
+// or for every type
+export async function GET(request: NextRequest) {
+  try {
+    const type = request.nextUrl.searchParams.get('type')
+    const types = type ? [type] : (await listPromptTypes()).map((definition) => definition.id)
+
+    const reports = await Promise.all(
+      types.map(async (id) => getExperimentReport(id, await listMetaPromptVersions(id)))
+    )
+    return NextResponse.json({ versions: reports.flat() })
+  } catch (error) {
+    console.error('Error building experiment report:', error)
+    if (error instanceof RequestError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to build experiment report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { RequestError } from '@/lib/errors'
+import { findRun, listRatedRuns, recordFeedback } from '@/lib/runs'
+
+const feedbackSchema = z.object({
+  runId: z.string().min(1),
+  rating: z.union([z.literal(1), z.literal(-1)]),
+  comment: z.string().trim().max(2000).optional(),
+})
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof RequestError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.status }
+    )
+  }
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  )
+}
+
+// Rates a logged run. Rating the same run again replaces the earlier rating.
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = feedbackSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      throw new RequestError('Invalid feedback', 400, `${issue.path.join('.')}: ${issue.message}`)
+    }
+
+    const run = await findRun(parsed.data.runId)
+    if (!run) {
+      throw new RequestError('Unknown run', 404)
+    }
+
+    const feedback = await recordFeedback({
+      runId: run.id,
+      rating: parsed.data.rating,
+      comment: parsed.data.comment || undefined,
+    })
+    return NextResponse.json({ feedback })
+  } catch (error) {
+    console.error('Error saving feedback:', error)
+    return errorResponse(error, 'Failed to save feedback')
+  }
+}
+
+// Exports rated runs as JSON Lines (`?format=jsonl`, the default) or as a JSON
+// array (`?format=json`), optionally limited to one prompt type
+export async function GET(request: NextRequest) {
+  try {
+    const format = request.nextUrl.searchParams.get('format') ?? 'jsonl'
+    const type = request.nextUrl.searchParams.get('type')
+    if (format !== 'jsonl' && format !== 'json') {
+      throw new RequestError(`Unsupported format: ${format}`)
+    }
+
+    const rated = (await listRatedRuns()).filter((run) => !type || run.type === type)
+    const pairs = rated.map((run) => ({
+      runId: run.id,
+      type: run.type,
+      metaPromptVersion: run.metaPromptVersion,
+      provider: run.provider,
+      model: run.model,
+      input: run.prompt,
+      advancedFields: run.advancedFields,
+      strategy: run.strategy,
+      output: run.output,
+      rating: run.rating,
+      comment: run.comment,
+      createdAt: run.createdAt,
+      ratedAt: run.ratedAt,
+    }))
+
+    if (format === 'json') {
+      return NextResponse.json({ pairs })
+    }
+
+    return new Response(pairs.map((pair) => JSON.stringify(pair)).join('\n') + (pairs.length ? '\n' : ''), {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="rated-prompts.jsonl"',
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting feedback:', error)
+    return errorResponse(error, 'Failed to export feedback')
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getEngineConfig } from '@/lib/engine'
+import { RequestError } from '@/lib/errors'
+import { getProvider } from '@/lib/providers'
+
+export async function GET(request: NextRequest) {
+  try {
+    const provider = getProvider(request.nextUrl.searchParams.get('provider') ?? undefined)
+    return NextResponse.json(getEngineConfig(provider))
+  } catch (error) {
+    console.error('Error loading models:', error)
+    if (error instanceof RequestError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Failed to load models' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,23 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
-import { readFile } from 'fs/promises'
-import { join } from 'path'
+import { RequestError } from '@/lib/errors'
+import { resolveVariants } from '@/lib/optimizer'
+import { prepareOptimization, runClarification, runOptimization, streamOptimization, type OptimizeContext } from '@/lib/pipeline'
+import { addUsage, type Usage } from '@/lib/providers'
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+const encoder = new TextEncoder()
 
-type PromptType = 'text' | 'image' | 'video' | 'code' | 'music'
+function encodeEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+// Streams the completion as server-sent events: one `delta` event per token
+// chunk, then a single `done` event carrying the usage (or `error` on failure).
+function streamResponse(context: OptimizeContext, signal: AbortSignal): Response {
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const event of streamOptimization(context, signal)) {
+          if (event.type === 'delta') {
+            controller.enqueue(encodeEvent('delta', { content: event.content }))
+          } else {
+            controller.enqueue(encodeEvent('done', event.result))
+          }
+        }
+      } catch (error) {
+        console.error('Error streaming optimized prompt:', error)
+        controller.enqueue(encodeEvent('error', {
+          error: error instanceof RequestError ? error.message : 'Failed to optimize prompt',
+          details: error instanceof RequestError ? error.details : error instanceof Error ? error.message : 'Unknown error',
+        }))
+      } finally {
+        controller.close()
+      }
+    },
+  })
 
-async function loadMetaPrompt(type: PromptType): Promise<string> {
-  const filePath = join(process.cwd(), 'prompts', `${type}.txt`)
-  const content = await readFile(filePath, 'utf-8')
-  return content
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { prompt, type, advancedFields } = await request.json()
+    const {
+      prompt,
+      type,
+      advancedFields,
+      stream,
+      provider,
+      options,
+      metaPromptVersion,
+      target,
+      n,
+      strategies,
+      reask,
+      mode,
+      budget,
+      refinement,
+      clarify,
+      clarifications,
+    } = await request.json()
 
     if (!prompt || !type) {
       return NextResponse.json(
@@ -26,62 +72,76 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json(
-        { error: 'OpenAI API key not configured' },
-        { status: 500 }
-      )
+    const context = await prepareOptimization({
+      prompt,
+      type,
+      advancedFields,
+      provider,
+      options,
+      metaPromptVersion,
+      target,
+      reask: reask === true,
+      mode,
+      budget,
+      refinement,
+      clarifications,
+    })
+
+    // Questions for the user come back instead of an optimized prompt
+    if (clarify === true) {
+      if (stream || n !== undefined || strategies !== undefined) {
+        throw new RequestError('Clarifying questions cannot be combined with streaming or variants')
+      }
+      return NextResponse.json(await runClarification(context, request.signal))
     }
 
-    // Load the appropriate meta-prompt
-    const metaPrompt = await loadMetaPrompt(type as PromptType)
+    if (n !== undefined || strategies !== undefined) {
+      if (stream) {
+        throw new RequestError('Streaming is not supported when requesting variants')
+      }
+
+      // Each variant is an independent completion so this works the same on
+      // every provider, including those without a native `n` parameter
+      const variants = await Promise.all(
+        resolveVariants(n, strategies).map((strategy) => runOptimization(context, strategy, request.signal))
+      )
 
-    // Build the user message with advanced fields if provided
-    let userMessage = `Please optimize this ${type} generation prompt:\n\n${prompt}`
-    
-    if (advancedFields && Object.keys(advancedFields).length > 0) {
-      userMessage += '\n\nAdditional context to incorporate:'
-      Object.entries(advancedFields).forEach(([key, value]) => {
-        userMessage += `\n- ${key}: ${value}`
+      return NextResponse.json({
+        variants: variants.map(({ runId, strategy, optimizedPrompt, negativePrompt, sections, usage, compliance, budget }) => ({
+          runId,
+          strategy,
+          optimizedPrompt,
+          negativePrompt,
+          sections,
+          usage,
+          compliance,
+          budget,
+        })),
+        usage: variants.reduce<Usage | undefined>((total, variant) => addUsage(total, variant.usage), undefined),
+        provider: context.provider.id,
+        model: variants[0].model,
+        metaPromptVersion: context.metaPrompt.version,
+        target: context.metaPrompt.target,
+        maxLength: context.metaPrompt.maxLength,
       })
     }
 
-    // Call OpenAI API to optimize the prompt
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: metaPrompt,
-        },
-        {
-          role: 'user',
-          content: userMessage,
-        },
-      ],
-      temperature: 0.7,
-      max_tokens: 1500,
-    })
-
-    const optimizedPrompt = completion.choices[0]?.message?.content
-
-    if (!optimizedPrompt) {
-      return NextResponse.json(
-        { error: 'Failed to generate optimized prompt' },
-        { status: 500 }
-      )
+    if (stream) {
+      return streamResponse(context, request.signal)
     }
 
-    return NextResponse.json({
-      optimizedPrompt,
-      usage: completion.usage,
-    })
+    return NextResponse.json(await runOptimization(context, undefined, request.signal))
   } catch (error) {
     console.error('Error optimizing prompt:', error)
+    if (error instanceof RequestError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      )
+    }
     return NextResponse.json(
       { error: 'Failed to optimize prompt', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
     )
   }
 }
-
@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { listPromptTypes } from '@/lib/prompt-types'
+
+export async function GET() {
+  try {
+    return NextResponse.json({ types: await listPromptTypes() })
+  } catch (error) {
+    console.error('Error loading prompt types:', error)
+    return NextResponse.json(
+      { error: 'Failed to load prompt types' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RequestError } from '@/lib/errors'
+import { listTemplates, saveTemplate } from '@/lib/templates'
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof RequestError) {
+    return NextResponse.json(
+      { error: error.message, details: error.details },
+      { status: error.status }
+    )
+  }
+  return NextResponse.json(
+    { error: fallback },
+    { status: 500 }
+  )
+}
+
+// Lists the starter templates, optionally limited to one prompt type
+export async function GET(request: NextRequest) {
+  try {
+    const type = request.nextUrl.searchParams.get('type') ?? undefined
+    return NextResponse.json({ templates: await listTemplates(type) })
+  } catch (error) {
+    console.error('Error loading templates:', error)
+    return errorResponse(error, 'Failed to load templates')
+  }
+}
+
+// Saves `{ type, label, description, prompt, advancedFields, target }` as a new
+// template file under `templates/<type>/`
+export async function POST(request: NextRequest) {
+  try {
+    const { type, ...template } = await request.json()
+    if (!type) {
+      throw new RequestError('Type is required')
+    }
+
+    return NextResponse.json({ template: await saveTemplate(type, template) }, { status: 201 })
+  } catch (error) {
+    console.error('Error saving template:', error)
+    return errorResponse(error, 'Failed to save template')
+  }
+}
@@ -0,0 +1,264 @@
+"use client"
+
+import { useRef, useState } from "react"
+import {
+  BATCH_CONCURRENCY,
+  detectBatchFormat,
+  formatBatchResults,
+  parseBatchFile,
+  runWithConcurrency,
+  type BatchFormat,
+  type BatchRow,
+  type BatchRowResult,
+} from "@/lib/batch"
+import type { EngineOptions } from "@/lib/engine"
+import type { PromptType } from "@/lib/optimizer"
+
+interface BatchOptimizerProps {
+  // Used for rows without a type column
+  defaultType: PromptType
+  types: Record<PromptType, { label: string; icon: string }>
+  // Engine options and re-ask setting applied to every row
+  options: EngineOptions
+  reask: boolean
+}
+
+interface OptimizeRowResponse {
+  optimizedPrompt: string
+  negativePrompt?: string
+  compliance?: { warnings: { message: string }[] }
+}
+
+async function optimizeRow(
+  row: BatchRow,
+  settings: Pick<BatchOptimizerProps, "options" | "reask">,
+  signal: AbortSignal
+): Promise<OptimizeRowResponse> {
+  const response = await fetch('/api/optimize', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      prompt: row.prompt,
+      type: row.type,
+      advancedFields: row.advancedFields,
+      target: row.target,
+      options: settings.options,
+      reask: settings.reask,
+    }),
+    signal,
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.details ? `${error.error}: ${error.details}` : error.error || 'Failed to optimize prompt')
+  }
+
+  return response.json()
+}
+
+function downloadFile(content: string, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+const statusLabels: Record<BatchRowResult["status"], string> = {
+  pending: "Waiting",
+  running: "Optimizing...",
+  done: "Done",
+  error: "Failed",
+}
+
+// Optimizes every row of an uploaded CSV or JSONL file through /api/optimize,
+// a few at a time, and offers the results for download
+export function BatchOptimizer({ defaultType, types, options, reask }: BatchOptimizerProps) {
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [results, setResults] = useState<BatchRowResult[]>([])
+  const [parseErrors, setParseErrors] = useState<{ line: number; message: string }[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    setError(null)
+    setResults([])
+    setParseErrors([])
+    setFileName(file?.name ?? null)
+    if (!file) return
+
+    const format = detectBatchFormat(file.name)
+    if (!format) {
+      setError("Upload a .csv or .jsonl file")
+      return
+    }
+
+    try {
+      const batch = parseBatchFile(await file.text(), format, defaultType)
+      setResults(batch.rows.map((row) => ({ ...row, status: "pending" })))
+      setParseErrors(batch.errors)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the file")
+    }
+  }
+
+  const updateRow = (index: number, update: Partial<BatchRowResult>) => {
+    setResults((prev) => prev.map((row, i) => (i === index ? { ...row, ...update } : row)))
+  }
+
+  // Runs the rows that haven't succeeded yet, so a second run retries failures
+  const handleRun = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsRunning(true)
+    setError(null)
+
+    const queue = results
+      .map((row, index) => ({ row, index }))
+      .filter(({ row }) => row.status !== "done")
+    queue.forEach(({ index }) => updateRow(index, { status: "pending", error: undefined }))
+
+    await runWithConcurrency(
+      queue,
+      BATCH_CONCURRENCY,
+      async ({ row, index }) => {
+        updateRow(index, { status: "running" })
+        try {
+          const result = await optimizeRow(row, { options, reask }, controller.signal)
+          updateRow(index, {
+            status: "done",
+            optimizedPrompt: result.optimizedPrompt,
+            negativePrompt: result.negativePrompt,
+            warnings: result.compliance?.warnings.map((warning) => warning.message),
+          })
+        } catch (err) {
+          updateRow(index, {
+            status: controller.signal.aborted ? "pending" : "error",
+            error: controller.signal.aborted ? undefined : err instanceof Error ? err.message : "Failed to optimize prompt",
+          })
+        }
+      },
+      controller.signal
+    )
+
+    abortRef.current = null
+    setIsRunning(false)
+  }
+
+  const handleStop = () => {
+    abortRef.current?.abort()
+  }
+
+  const handleDownload = (format: BatchFormat) => {
+    const baseName = (fileName ?? "batch").replace(/\.[^.]+$/, "")
+    downloadFile(
+      formatBatchResults(results, format),
+      `${baseName}-optimized.${format}`,
+      format === "csv" ? "text/csv" : "application/x-ndjson"
+    )
+  }
+
+  const finished = results.filter((row) => row.status === "done" || row.status === "error").length
+  const failed = results.filter((row) => row.status === "error").length
+
+  return (
+    <div className="bg-secondary border-2 border-border p-4 space-y-3">
+      <p className="text-card-foreground text-sm font-bold">Batch Optimization:</p>
+      <p className="text-muted-foreground text-xs">
+        CSV needs a &quot;prompt&quot; column; &quot;type&quot; and &quot;target&quot; are optional and any other column
+        is an advanced field. JSONL rows are {"{ prompt, type, advancedFields, target }"}. Rows without a type
+        use {types[defaultType]?.label ?? defaultType}.
+      </p>
+      <input
+        type="file"
+        accept=".csv,.jsonl,.ndjson"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        disabled={isRunning}
+        className="text-card-foreground text-sm"
+      />
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      {parseErrors.length > 0 && (
+        <div className="bg-yellow-500/20 border-2 border-yellow-500 p-2 text-yellow-500 text-sm">
+          <p className="font-bold">Skipped {parseErrors.length} unreadable {parseErrors.length === 1 ? "row" : "rows"}:</p>
+          <ul className="list-disc pl-5">
+            {parseErrors.map((parseError) => (
+              <li key={parseError.line}>Line {parseError.line}: {parseError.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            {isRunning ? (
+              <button
+                onClick={handleStop}
+                className="px-3 py-1 bg-secondary text-card-foreground border-2 border-border text-sm hover:bg-muted"
+              >
+                Stop
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                disabled={finished === results.length && failed === 0}
+                className="px-3 py-1 bg-primary text-primary-foreground border-2 border-border text-sm font-bold hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {failed > 0 ? `Retry ${failed} Failed` : finished > 0 ? "Resume" : `Optimize ${results.length} Prompts`}
+              </button>
+            )}
+            <button
+              onClick={() => handleDownload("csv")}
+              disabled={finished === 0}
+              className="px-3 py-1 bg-secondary text-card-foreground border-2 border-border text-sm hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Download CSV
+            </button>
+            <button
+              onClick={() => handleDownload("jsonl")}
+              disabled={finished === 0}
+              className="px-3 py-1 bg-secondary text-card-foreground border-2 border-border text-sm hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Download JSONL
+            </button>
+            <span className="text-muted-foreground text-xs">
+              {finished} / {results.length} finished{failed > 0 && `, ${failed} failed`}
+            </span>
+          </div>
+          <div className="w-full h-2 bg-input border border-border">
+            <div className="h-full bg-primary" style={{ width: `${(finished / results.length) * 100}%` }} />
+          </div>
+          <ul className="space-y-2 max-h-96 overflow-auto">
+            {results.map((row) => (
+              <li key={row.line} className="bg-input border-2 border-border p-2 flex flex-col gap-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-card-foreground text-xs font-bold">
+                    Line {row.line} · {types[row.type]?.icon} {types[row.type]?.label ?? row.type}
+                    {row.target && ` · ${row.target}`}
+                  </span>
+                  <span className={`text-xs ${row.status === "error" ? "text-red-500 font-bold" : "text-muted-foreground"}`}>
+                    {statusLabels[row.status]}
+                  </span>
+                </div>
+                <p className="text-card-foreground text-sm font-mono truncate">{row.prompt}</p>
+                {row.optimizedPrompt && (
+                  <p className="text-muted-foreground text-xs font-mono line-clamp-2">{row.optimizedPrompt}</p>
+                )}
+                {row.warnings && row.warnings.length > 0 && (
+                  <p className="text-yellow-500 text-xs">Warnings: {row.warnings.join("; ")}</p>
+                )}
+                {row.error && <p className="text-red-500 text-xs">{row.error}</p>}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import type { ClarifyingQuestion } from "@/lib/clarify"
+
+interface ClarifyingQuestionsProps {
+  questions: ClarifyingQuestion[]
+  answers: Record<string, string>
+  onAnswerChange: (id: string, answer: string) => void
+  onSubmit: () => void
+  onSkip: () => void
+  disabled?: boolean
+}
+
+// Short form for the questions asked before optimizing; blank answers are
+// left for the optimizer to decide
+export function ClarifyingQuestions({
+  questions,
+  answers,
+  onAnswerChange,
+  onSubmit,
+  onSkip,
+  disabled,
+}: ClarifyingQuestionsProps) {
+  return (
+    <div className="bg-secondary border-2 border-border p-4 flex flex-col gap-3">
+      <p className="text-card-foreground text-sm font-bold">A few questions before optimizing:</p>
+      {questions.map((question) => (
+        <div key={question.id} className="flex flex-col gap-1">
+          <label className="text-card-foreground text-sm">
+            {question.question}
+            {question.field && <span className="text-muted-foreground text-xs"> ({question.field})</span>}
+          </label>
+          <input
+            type="text"
+            value={answers[question.id] ?? ""}
+            onChange={(e) => onAnswerChange(question.id, e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !disabled) onSubmit()
+            }}
+            placeholder={question.example ? `e.g., ${question.example}` : ""}
+            className="w-full p-2 bg-input border-2 border-border text-sm text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary"
+          />
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <button
+          onClick={onSubmit}
+          disabled={disabled}
+          className="px-3 py-1 bg-primary text-primary-foreground border-2 border-border text-sm font-bold hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Optimize with Answers
+        </button>
+        <button
+          onClick={onSkip}
+          disabled={disabled}
+          className="px-3 py-1 bg-secondary text-card-foreground border-2 border-border text-sm hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Skip
+        </button>
+      </div>
+    </div>
+  )
+}
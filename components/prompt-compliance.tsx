@@ -0,0 +1,53 @@
+"use client"
+
+export interface Compliance {
+  fixed: string[]
+  warnings: { name: string; message: string }[]
+  reasked: boolean
+  limitRetries: number
+}
+
+const fixedLabels: Record<string, string> = {
+  "no-preamble": "removed an introduction line",
+  "no-code-fence": "removed the code fence around the prompt",
+  "no-trailing-commentary": "removed closing commentary",
+}
+
+interface PromptComplianceProps {
+  compliance: Compliance
+}
+
+// Notes on how the output was cleaned up and which rules it still breaks
+export function PromptCompliance({ compliance }: PromptComplianceProps) {
+  const { fixed, warnings, reasked, limitRetries } = compliance
+  if (fixed.length === 0 && warnings.length === 0 && !reasked && limitRetries === 0) return null
+
+  return (
+    <div className="flex flex-col gap-1 text-sm">
+      {fixed.length > 0 && (
+        <p className="text-muted-foreground">
+          Cleaned up: {fixed.map((name) => fixedLabels[name] ?? name).join(", ")}.
+        </p>
+      )}
+      {reasked && (
+        <p className="text-muted-foreground">The model was asked once more to follow the rules.</p>
+      )}
+      {limitRetries > 0 && (
+        <p className="text-muted-foreground">
+          The model was asked to shorten the prompt {limitRetries === 1 ? "once" : `${limitRetries} times`} to fit the
+          platform&apos;s limits.
+        </p>
+      )}
+      {warnings.length > 0 && (
+        <div className="bg-yellow-500/20 border-2 border-yellow-500 p-2 text-yellow-500">
+          <p className="font-bold">Warnings:</p>
+          <ul className="list-disc pl-5">
+            {warnings.map((warning) => (
+              <li key={warning.name}>{warning.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { diffWords, summarizeDiff } from "@/lib/diff"
+
+interface PromptDiffProps {
+  before: string
+  after: string
+  beforeLabel?: string
+  afterLabel?: string
+}
+
+// Keeps at most two items selected for comparison, dropping the oldest pick
+export function toggleComparison<T>(selected: T[], item: T): T[] {
+  if (selected.includes(item)) {
+    return selected.filter((existing) => existing !== item)
+  }
+  return [...selected, item].slice(-2)
+}
+
+const DIFF_DELAY_MS = 150
+
+// `value` once it has stopped changing for DIFF_DELAY_MS, so the diff isn't
+// recomputed on every keystroke
+function useSettledValue<T>(value: T): T {
+  const [settled, setSettled] = useState(value)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSettled(value), DIFF_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [value])
+
+  return settled
+}
+
+export function PromptDiff({ before, after, beforeLabel = "Original", afterLabel = "Optimized" }: PromptDiffProps) {
+  const settledBefore = useSettledValue(before)
+  const settledAfter = useSettledValue(after)
+  const segments = useMemo(() => diffWords(settledBefore, settledAfter), [settledBefore, settledAfter])
+  const summary = useMemo(() => summarizeDiff(segments), [segments])
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-card-foreground text-xs">
+        <span className="text-green-600 font-bold">+{summary.inserted}</span> words added,{" "}
+        <span className="text-red-500 font-bold">-{summary.deleted}</span> words removed
+      </p>
+      <div className="grid gap-2 md:grid-cols-2">
+        <div className="flex flex-col gap-1 min-w-0">
+          <p className="text-card-foreground text-sm font-bold">{beforeLabel}:</p>
+          <div className="p-3 bg-input border-2 border-border text-sm text-black whitespace-pre-wrap font-mono max-h-96 overflow-auto">
+            {segments.map((segment, i) =>
+              segment.op === "insert" ? null : (
+                <span key={i} className={segment.op === "delete" ? "bg-red-500/30 line-through" : undefined}>
+                  {segment.text}
+                </span>
+              )
+            )}
+          </div>
+        </div>
+        <div className="flex flex-col gap-1 min-w-0">
+          <p className="text-card-foreground text-sm font-bold">{afterLabel}:</p>
+          <div className="p-3 bg-input border-2 border-border text-sm text-black whitespace-pre-wrap font-mono max-h-96 overflow-auto">
+            {segments.map((segment, i) =>
+              segment.op === "delete" ? null : (
+                <span key={i} className={segment.op === "insert" ? "bg-green-500/30" : undefined}>
+                  {segment.text}
+                </span>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+"use client"
+
+import { useState } from "react"
+
+interface PromptFeedbackProps {
+  runId: string
+}
+
+type Rating = 1 | -1
+
+async function sendFeedback(runId: string, rating: Rating, comment: string): Promise<void> {
+  const response = await fetch('/api/feedback', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ runId, rating, comment: comment.trim() || undefined }),
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to save feedback')
+  }
+}
+
+// Rating controls for one run; remount (via `key`) when the run changes
+export function PromptFeedback({ runId }: PromptFeedbackProps) {
+  const [rating, setRating] = useState<Rating | null>(null)
+  const [comment, setComment] = useState("")
+  const [status, setStatus] = useState<"idle" | "sending" | "sent">("idle")
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async (nextRating: Rating, nextComment: string) => {
+    setStatus("sending")
+    setError(null)
+    try {
+      await sendFeedback(runId, nextRating, nextComment)
+      setStatus("sent")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save feedback')
+      setStatus("idle")
+    }
+  }
+
+  const handleRate = (nextRating: Rating) => {
+    setRating(nextRating)
+    submit(nextRating, comment)
+  }
+
+  return (
+    <div className="bg-secondary border-2 border-border p-3 flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <p className="text-card-foreground text-sm font-bold">Was this prompt useful?</p>
+        <button
+          onClick={() => handleRate(1)}
+          disabled={status === "sending"}
+          aria-label="Thumbs up"
+          className={`px-2 py-1 border-2 border-border text-sm disabled:opacity-50 ${
+            rating === 1 ? "bg-primary text-primary-foreground" : "bg-secondary text-card-foreground hover:bg-muted"
+          }`}
+        >
+          👍
+        </button>
+        <button
+          onClick={() => handleRate(-1)}
+          disabled={status === "sending"}
+          aria-label="Thumbs down"
+          className={`px-2 py-1 border-2 border-border text-sm disabled:opacity-50 ${
+            rating === -1 ? "bg-primary text-primary-foreground" : "bg-secondary text-card-foreground hover:bg-muted"
+          }`}
+        >
+          👎
+        </button>
+        {status === "sent" && <span className="text-card-foreground text-xs">Thanks for the feedback!</span>}
+      </div>
+      {rating !== null && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={rating === 1 ? "What worked well? (optional)" : "What went wrong? (optional)"}
+            className="flex-1 p-2 bg-input border-2 border-border text-sm text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary"
+          />
+          <button
+            onClick={() => submit(rating, comment)}
+            disabled={!comment.trim() || status === "sending"}
+            className="px-3 py-1 bg-secondary text-card-foreground border-2 border-border text-sm hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Send
+          </button>
+        </div>
+      )}
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </div>
+  )
+}
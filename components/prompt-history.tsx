@@ -0,0 +1,176 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  listHistoryEntries,
+  matchesHistorySearch,
+  type HistoryEntry,
+} from "@/lib/history"
+import type { PromptType } from "@/lib/optimizer"
+import { PromptDiff, toggleComparison } from "./prompt-diff"
+
+interface PromptHistoryProps {
+  types: Record<PromptType, { label: string; icon: string }>
+  // Bumped by the parent whenever it saves a new entry so the list reloads
+  refreshKey: number
+  onRestore: (entry: HistoryEntry) => void
+}
+
+function formatTimestamp(timestamp: number) {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+export function PromptHistory({ types, refreshKey, onRestore }: PromptHistoryProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [search, setSearch] = useState("")
+  const [typeFilter, setTypeFilter] = useState<PromptType | "all">("all")
+  const [error, setError] = useState<string | null>(null)
+  const [comparedIds, setComparedIds] = useState<string[]>([])
+
+  const loadEntries = () => {
+    listHistoryEntries(typeFilter === "all" ? undefined : typeFilter)
+      .then((loaded) => {
+        setEntries(loaded)
+        setError(null)
+      })
+      .catch((err) => {
+        console.error("Failed to load history:", err)
+        setError("History is unavailable in this browser")
+      })
+  }
+
+  useEffect(loadEntries, [typeFilter, refreshKey])
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id)
+      setComparedIds((prev) => prev.filter((comparedId) => comparedId !== id))
+      loadEntries()
+    } catch (err) {
+      console.error("Failed to delete history entry:", err)
+      setError("Could not delete the history entry")
+    }
+  }
+
+  const handleClearAll = async () => {
+    if (!confirm("Delete all saved history?")) return
+    try {
+      await clearHistory()
+      setComparedIds([])
+      loadEntries()
+    } catch (err) {
+      console.error("Failed to clear history:", err)
+      setError("Could not clear the history")
+    }
+  }
+
+  const visibleEntries = entries.filter((entry) => matchesHistorySearch(entry, search))
+  // Oldest first so the diff reads as "what changed since"
+  const comparedEntries = entries
+    .filter((entry) => comparedIds.includes(entry.id))
+    .sort((a, b) => a.createdAt - b.createdAt)
+
+  return (
+    <div className="bg-secondary border-2 border-border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-card-foreground text-sm font-bold">History:</p>
+        {entries.length > 0 && (
+          <button
+            onClick={handleClearAll}
+            className="px-2 py-1 text-xs text-card-foreground hover:text-white underline"
+          >
+            Clear History
+          </button>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search prompts..."
+          className="flex-1 p-2 bg-input border-2 border-border text-sm text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary"
+        />
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as PromptType | "all")}
+          aria-label="Filter by type"
+          className="p-2 bg-input border-2 border-border text-sm text-card-foreground focus:outline-none focus:border-primary"
+        >
+          <option value="all">All Types</option>
+          {(Object.keys(types) as PromptType[]).map((type) => (
+            <option key={type} value={type}>{types[type].icon} {types[type].label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      {!error && visibleEntries.length === 0 && (
+        <p className="text-muted-foreground text-sm">
+          {entries.length === 0 ? "No optimizations saved yet." : "No entries match your search."}
+        </p>
+      )}
+
+      <ul className="space-y-2 max-h-80 overflow-auto">
+        {visibleEntries.map((entry) => (
+          <li key={entry.id} className="bg-input border-2 border-border p-2 flex flex-col gap-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-card-foreground text-xs font-bold">
+                {types[entry.type]?.icon} {types[entry.type]?.label ?? entry.type}
+              </span>
+              <span className="text-muted-foreground text-xs">
+                {formatTimestamp(entry.createdAt)}
+                {entry.model && ` · ${entry.model}`}
+                {entry.usage && ` · ${entry.usage.total_tokens} tokens`}
+                {entry.revisions && entry.revisions.length > 1 && ` · ${entry.revisions.length} revisions`}
+              </span>
+            </div>
+            <p className="text-card-foreground text-sm font-mono truncate">{entry.input}</p>
+            <p className="text-muted-foreground text-xs font-mono line-clamp-2">{entry.output}</p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onRestore(entry)}
+                className="px-2 py-1 bg-primary text-primary-foreground border-2 border-border text-xs hover:bg-accent"
+              >
+                Restore
+              </button>
+              <button
+                onClick={() => handleDelete(entry.id)}
+                className="px-2 py-1 bg-secondary text-card-foreground border-2 border-border text-xs hover:bg-muted"
+              >
+                Delete
+              </button>
+              <button
+                onClick={() => setComparedIds((prev) => toggleComparison(prev, entry.id))}
+                className={`px-2 py-1 border-2 border-border text-xs ${
+                  comparedIds.includes(entry.id)
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-secondary text-card-foreground hover:bg-muted"
+                }`}
+              >
+                Compare
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {comparedEntries.length === 2 && (
+        <PromptDiff
+          before={comparedEntries[0].output}
+          after={comparedEntries[1].output}
+          beforeLabel={formatTimestamp(comparedEntries[0].createdAt)}
+          afterLabel={formatTimestamp(comparedEntries[1].createdAt)}
+        />
+      )}
+    </div>
+  )
+}
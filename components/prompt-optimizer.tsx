@@ -1,153 +1,615 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useMemo, useState } from "react"
+import { useTokenCount } from "@/hooks/use-token-count"
+import type { PromptAnalysis } from "@/lib/analyze"
+import type { BudgetReport, LengthBudget } from "@/lib/budget"
+import type { ClarifyingQuestion } from "@/lib/clarify"
+import type { EngineConfig, EngineOptions } from "@/lib/engine"
+import { addHistoryEntry, updateHistoryEntry, type HistoryEntry, type NewHistoryEntry } from "@/lib/history"
+import type { OutputSection } from "@/lib/meta-prompt"
+import type { OptimizationStrategy, OptimizeMode, PromptType } from "@/lib/optimizer"
+import type { OptimizeResult } from "@/lib/pipeline"
+import { findPlaceholders } from "@/lib/placeholders"
+import { findModelPrice, type ModelPrice } from "@/lib/pricing"
+import type { PromptTypeDefinition } from "@/lib/prompt-types"
+import type { PromptTemplate } from "@/lib/templates"
+import { BatchOptimizer } from "./batch-optimizer"
+import { ClarifyingQuestions } from "./clarifying-questions"
+import { PromptCompliance, type Compliance } from "./prompt-compliance"
+import { PromptDiff, toggleComparison } from "./prompt-diff"
+import { PromptFeedback } from "./prompt-feedback"
+import { PromptHistory } from "./prompt-history"
+import { PromptScores } from "./prompt-scores"
+import { CharacterCount, PromptSections } from "./prompt-sections"
+import { PromptTemplates } from "./prompt-templates"
+import { TemplateFill } from "./template-fill"
+import { BudgetStatus, TokenEstimate, UsageSummary } from "./token-estimate"
 
-type PromptType = "text" | "image" | "video" | "code" | "music"
+// Variants restored from history come back without their compliance report
+interface Variant
+  extends Pick<OptimizeResult, "runId" | "strategy" | "optimizedPrompt" | "negativePrompt" | "sections" | "usage" | "budget"> {
+  compliance?: OptimizeResult["compliance"]
+}
+
+// One step of the refinement conversation; the first is the optimization itself
+interface Revision extends Omit<Variant, "strategy"> {
+  instruction?: string
+}
+
+// What the route needs to replay a revision, without the display-only fields
+function toRevisionRequest({ instruction, optimizedPrompt, negativePrompt, sections }: Revision) {
+  return { instruction, optimizedPrompt, negativePrompt, sections }
+}
+
+interface ClarifyResponse {
+  questions: ClarifyingQuestion[]
+}
+
+interface Clarification {
+  question: string
+  field?: string
+  answer: string
+}
+
+interface OptimizeVariantsResponse {
+  variants: Variant[]
+  usage?: OptimizeResult["usage"]
+  provider?: string
+  model?: string
+  metaPromptVersion?: string
+  target?: string
+  maxLength?: number
+}
+
+type BudgetUnit = LengthBudget["unit"]
 
-interface OptimizeResponse {
-  optimizedPrompt: string
-  usage?: {
-    prompt_tokens: number
-    completion_tokens: number
-    total_tokens: number
+// Fields shared by streaming and variant requests
+interface OptimizeRequestBody {
+  prompt: string
+  type: PromptType
+  advancedFields?: Record<string, string>
+  options: EngineOptions
+  target?: string
+  metaPromptVersion?: string
+  reask: boolean
+  mode: OptimizeMode
+  budget?: LengthBudget
+  refinement?: {
+    revisions: ReturnType<typeof toRevisionRequest>[]
+    instruction: string
   }
+  clarifications?: Clarification[]
+}
+
+// The type, target and meta-prompt version behind an output
+interface OutputSource {
+  type: PromptType
+  target?: string
+  metaPromptVersion?: string
+}
+
+// "1" streams a single prompt; anything else asks the route for variants
+const variantModes = {
+  "1": "1 prompt",
+  "2": "2 variants",
+  "3": "3 variants",
+  "4": "4 variants",
+  strategies: "Concise / Detailed / Creative",
+} as const
+
+type VariantMode = keyof typeof variantModes
+
+const strategyLabels: Record<OptimizationStrategy, string> = {
+  concise: "Concise",
+  detailed: "Detailed",
+  creative: "Creative",
+}
+
+function variantLabel(variant: Variant, index: number) {
+  return variant.strategy ? strategyLabels[variant.strategy] : `Variant ${index + 1}`
+}
+
+const emptyEngineFields = {
+  model: "",
+  temperature: "",
+  topP: "",
+  maxTokens: "",
+  seed: "",
+}
+
+type EngineFields = typeof emptyEngineFields
+
+// Turns the Engine inputs into request options, leaving out anything blank so
+// the server falls back to its defaults.
+function toEngineOptions(fields: EngineFields): EngineOptions {
+  const options: EngineOptions = {}
+  if (fields.model) options.model = fields.model
+  if (fields.temperature.trim()) options.temperature = Number(fields.temperature)
+  if (fields.topP.trim()) options.topP = Number(fields.topP)
+  if (fields.maxTokens.trim()) options.maxTokens = Number(fields.maxTokens)
+  if (fields.seed.trim()) options.seed = Number(fields.seed)
+  return options
 }
 
-const promptTypeConfig: Record<PromptType, { label: string; icon: string; tips: string[]; advancedFields: { label: string; placeholder: string }[] }> = {
-  text: {
-    label: "Text Generation",
-    icon: "📝",
-    tips: [
-      "Be specific about tone and style",
-      "Include context and background",
-      "Specify desired length and format",
-      "Add examples when possible",
-    ],
-    advancedFields: [
-      { label: "Target Audience", placeholder: "e.g., Technical experts, General public, Students..." },
-      { label: "Tone & Voice", placeholder: "e.g., Professional, Casual, Humorous, Academic..." },
-      { label: "Length & Format", placeholder: "e.g., 500 words, 3 paragraphs, Bullet points..." },
-      { label: "Key Points to Include", placeholder: "e.g., Statistics, Examples, Quotes..." },
-    ],
-  },
-  image: {
-    label: "Image Generation",
-    icon: "🖼️",
-    tips: [
-      "Describe subject, style, and mood",
-      "Include lighting and composition",
-      "Specify art style (photorealistic, anime, etc.)",
-      "Add camera angle and perspective",
-    ],
-    advancedFields: [
-      { label: "Art Style", placeholder: "e.g., Photorealistic, Oil painting, Anime, 3D render..." },
-      { label: "Lighting", placeholder: "e.g., Golden hour, Studio lighting, Dramatic shadows..." },
-      { label: "Camera Angle", placeholder: "e.g., Eye-level, Bird's eye view, Low angle..." },
-      { label: "Color Palette", placeholder: "e.g., Warm tones, Vibrant, Monochrome, Pastel..." },
-    ],
-  },
-  video: {
-    label: "Video Generation",
-    icon: "🎬",
-    tips: [
-      "Describe scene transitions",
-      "Include motion and action details",
-      "Specify duration and pacing",
-      "Add audio/music preferences",
-    ],
-    advancedFields: [
-      { label: "Duration & Pacing", placeholder: "e.g., 30 seconds, Fast-paced, Slow and cinematic..." },
-      { label: "Camera Movement", placeholder: "e.g., Static, Slow pan, Dolly zoom, Handheld..." },
-      { label: "Transitions", placeholder: "e.g., Hard cuts, Fade to black, Crossfade..." },
-      { label: "Audio/Music", placeholder: "e.g., Upbeat music, Ambient sounds, Voice-over..." },
-    ],
-  },
-  code: {
-    label: "Code Generation",
-    icon: "💻",
-    tips: [
-      "Specify programming language",
-      "Describe inputs and outputs",
-      "Include error handling needs",
-      "Mention performance requirements",
-    ],
-    advancedFields: [
-      { label: "Language & Version", placeholder: "e.g., Python 3.11, TypeScript 5.0, Java 17..." },
-      { label: "Framework/Libraries", placeholder: "e.g., React, Flask, Spring Boot, No dependencies..." },
-      { label: "Error Handling", placeholder: "e.g., Try/catch blocks, Return error codes, Throw exceptions..." },
-      { label: "Performance Requirements", placeholder: "e.g., O(n) complexity, Async/await, Caching..." },
-    ],
-  },
-  music: {
-    label: "Music Generation",
-    icon: "🎵",
-    tips: [
-      "Describe genre and mood",
-      "Specify tempo and key",
-      "Include instrument preferences",
-      "Mention similar artists/songs",
-    ],
-    advancedFields: [
-      { label: "Genre & Style", placeholder: "e.g., Jazz fusion, EDM, Classical, Lo-fi hip-hop..." },
-      { label: "Tempo & Key", placeholder: "e.g., 120 BPM, C Major, Slow tempo in D minor..." },
-      { label: "Instruments", placeholder: "e.g., Piano, Synthesizer, Orchestra, Acoustic guitar..." },
-      { label: "Reference Artists", placeholder: "e.g., Similar to Daft Punk, Miles Davis style..." },
-    ],
-  },
+async function loadPromptTypes(): Promise<PromptTypeDefinition[]> {
+  const response = await fetch('/api/prompt-types')
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to load prompt types')
+  }
+
+  const data: { types: PromptTypeDefinition[] } = await response.json()
+  return data.types
 }
 
-async function optimizePrompt(prompt: string, type: PromptType, advancedFields?: Record<string, string>): Promise<string> {
+async function loadEngineConfig(): Promise<EngineConfig> {
+  const response = await fetch('/api/models')
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to load models')
+  }
+
+  return response.json()
+}
+
+interface StreamEvent {
+  event: string
+  data: string
+}
+
+function parseStreamEvent(block: string): StreamEvent | null {
+  let event = "message"
+  const data: string[] = []
+
+  block.split("\n").forEach((line) => {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim()
+    } else if (line.startsWith("data:")) {
+      data.push(line.slice(5).trimStart())
+    }
+  })
+
+  return data.length > 0 ? { event, data: data.join("\n") } : null
+}
+
+// Streams the optimized prompt from the route, calling onDelta with the text
+// accumulated so far as each token chunk arrives. The `done` event carries the
+// cleaned-up prompt, which replaces the raw streamed text.
+async function optimizePrompt(
+  body: OptimizeRequestBody,
+  onDelta: (text: string) => void
+): Promise<OptimizeResult> {
   const response = await fetch('/api/optimize', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ prompt, type, advancedFields }),
+    body: JSON.stringify({ ...body, stream: true }),
   })
 
   if (!response.ok) {
     const error = await response.json()
-    throw new Error(error.error || 'Failed to optimize prompt')
+    throw new Error(error.details ? `${error.error}: ${error.details}` : error.error || 'Failed to optimize prompt')
+  }
+
+  if (!response.body) {
+    throw new Error('Failed to optimize prompt')
   }
 
-  const data: OptimizeResponse = await response.json()
-  return data.optimizedPrompt
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  let optimizedPrompt = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const blocks = buffer.split("\n\n")
+    buffer = blocks.pop() ?? ""
+
+    for (const block of blocks) {
+      const parsed = parseStreamEvent(block)
+      if (!parsed) continue
+
+      const data = JSON.parse(parsed.data)
+      if (parsed.event === "delta") {
+        optimizedPrompt += data.content
+        onDelta(optimizedPrompt)
+      } else if (parsed.event === "done") {
+        return data
+      } else if (parsed.event === "error") {
+        throw new Error(data.error || 'Failed to optimize prompt')
+      }
+    }
+  }
+
+  throw new Error('Stream ended before the optimized prompt was complete')
+}
+
+async function askClarifyingQuestions(body: OptimizeRequestBody): Promise<ClarifyResponse> {
+  const response = await fetch('/api/optimize', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...body, clarify: true }),
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.details ? `${error.error}: ${error.details}` : error.error || 'Failed to get clarifying questions')
+  }
+
+  return response.json()
+}
+
+async function analyzePrompt(
+  body: Pick<OptimizeRequestBody, "prompt" | "type" | "options" | "target"> & { metaPromptVersion?: string }
+): Promise<PromptAnalysis> {
+  const response = await fetch('/api/analyze', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.details ? `${error.error}: ${error.details}` : error.error || 'Failed to analyze prompt')
+  }
+
+  return response.json()
+}
+
+async function optimizeVariants(
+  body: OptimizeRequestBody,
+  mode: Exclude<VariantMode, "1">
+): Promise<OptimizeVariantsResponse> {
+  const variantRequest = mode === "strategies"
+    ? { strategies: Object.keys(strategyLabels) }
+    : { n: Number(mode) }
+
+  const response = await fetch('/api/optimize', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...body, ...variantRequest }),
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.details ? `${error.error}: ${error.details}` : error.error || 'Failed to optimize prompt')
+  }
+
+  return response.json()
 }
 
 export function PromptOptimizerContent() {
   const [inputPrompt, setInputPrompt] = useState("")
   const [outputPrompt, setOutputPrompt] = useState("")
+  // The logged run behind outputPrompt, used to attach feedback
+  const [outputRunId, setOutputRunId] = useState<string | undefined>()
+  // What the request that produced outputPrompt used, for the cost summary
+  const [outputUsage, setOutputUsage] = useState<OptimizeResult["usage"]>()
+  const [outputModel, setOutputModel] = useState<string | undefined>()
+  // What produced the output, so scoring and refining use the same rubric,
+  // type and target even after the form has changed
+  const [outputSource, setOutputSource] = useState<OutputSource | undefined>()
+  // The target platform's character limit for outputPrompt
+  const [outputMaxLength, setOutputMaxLength] = useState<number | undefined>()
+  const [outputNegativePrompt, setOutputNegativePrompt] = useState<string | undefined>()
+  const [outputSections, setOutputSections] = useState<OutputSection[] | undefined>()
+  const [outputCompliance, setOutputCompliance] = useState<Compliance | undefined>()
+  const [outputBudget, setOutputBudget] = useState<BudgetReport | undefined>()
   const [selectedType, setSelectedType] = useState<PromptType>("text")
+  // Target platform id; ignored for types that don't offer it
+  const [selectedTarget, setSelectedTarget] = useState("")
   const [isProcessing, setIsProcessing] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showAdvanced, setShowAdvanced] = useState(false)
   const [copied, setCopied] = useState(false)
-  const [advancedFields, setAdvancedFields] = useState({
-    field1: "",
-    field2: "",
-    field3: "",
-    field4: "",
-  })
+  const [copiedNegative, setCopiedNegative] = useState(false)
+  // Values by field position, so they carry over when switching types
+  const [advancedFields, setAdvancedFields] = useState<string[]>([])
+  const [promptTypes, setPromptTypes] = useState<PromptTypeDefinition[]>([])
+  const [engineConfig, setEngineConfig] = useState<EngineConfig | null>(null)
+  const [engineFields, setEngineFields] = useState<EngineFields>(emptyEngineFields)
+  const [reask, setReask] = useState(false)
+  const [mode, setMode] = useState<OptimizeMode>("optimize")
+  // Blank means no budget
+  const [budgetLimit, setBudgetLimit] = useState("")
+  const [budgetUnit, setBudgetUnit] = useState<BudgetUnit>("tokens")
+  const [variantMode, setVariantMode] = useState<VariantMode>("1")
+  const [variants, setVariants] = useState<Variant[]>([])
+  const [selectedVariant, setSelectedVariant] = useState<number | null>(null)
+  const [copiedVariant, setCopiedVariant] = useState<number | null>(null)
+  const [comparedVariants, setComparedVariants] = useState<number[]>([])
+  const [showDiff, setShowDiff] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showTemplates, setShowTemplates] = useState(false)
+  const [showBatch, setShowBatch] = useState(false)
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0)
+  // The saved entry behind outputPrompt, which refinements add revisions to
+  const [historyEntry, setHistoryEntry] = useState<HistoryEntry | null>(null)
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [activeRevision, setActiveRevision] = useState(0)
+  const [refineInstruction, setRefineInstruction] = useState("")
+  const [isRefining, setIsRefining] = useState(false)
+  const [askFirst, setAskFirst] = useState(false)
+  // Questions waiting for answers before the optimization runs
+  const [questions, setQuestions] = useState<ClarifyingQuestion[] | null>(null)
+  const [answers, setAnswers] = useState<Record<string, string>>({})
+  // The answers behind outputPrompt, sent again with each refinement
+  const [clarifications, setClarifications] = useState<Clarification[] | undefined>()
+  // Scores for a pair of input and output texts; shown only while both still match
+  const [scores, setScores] = useState<{ input: string; output: string; before: PromptAnalysis; after: PromptAnalysis } | null>(null)
+  const [isScoring, setIsScoring] = useState(false)
+
+  const promptTypeConfig = useMemo(
+    () => Object.fromEntries(promptTypes.map((type) => [type.id, type])) as Record<PromptType, PromptTypeDefinition>,
+    [promptTypes]
+  )
+  const selectedConfig: PromptTypeDefinition | undefined = promptTypeConfig[selectedType]
+  // Token counts and per-call cost are estimated for the engine's model
+  const pricingModel = engineFields.model || engineConfig?.defaultModel
+  const pricingPrice = engineConfig && pricingModel ? findModelPrice(engineConfig.prices, pricingModel) : undefined
+  const inputTokens = useTokenCount(inputPrompt, pricingModel)
+  const outputTokens = useTokenCount(outputPrompt, pricingModel)
+  const inputPlaceholders = useMemo(() => findPlaceholders(inputPrompt), [inputPrompt])
+  const activeTarget = selectedConfig?.targets.some((target) => target.id === selectedTarget) ? selectedTarget : undefined
+
+  useEffect(() => {
+    loadPromptTypes()
+      .then((types) => {
+        setPromptTypes(types)
+        setSelectedType((current) => (types.some((type) => type.id === current) || types.length === 0 ? current : types[0].id))
+      })
+      .catch((err) => {
+        console.error('Failed to load prompt types:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load prompt types')
+      })
+  }, [])
+
+  useEffect(() => {
+    loadEngineConfig()
+      .then(setEngineConfig)
+      .catch((err) => console.error('Failed to load engine config:', err))
+  }, [])
+
+  // History is a convenience: a failed write is logged but never blocks the result
+  const saveToHistory = (entry: NewHistoryEntry) => {
+    addHistoryEntry(entry)
+      .then((saved) => {
+        setHistoryEntry(saved)
+        setHistoryRefreshKey((key) => key + 1)
+      })
+      .catch((err) => console.error('Failed to save history:', err))
+  }
+
+  const updateHistory = (entry: HistoryEntry) => {
+    setHistoryEntry(entry)
+    updateHistoryEntry(entry)
+      .then(() => setHistoryRefreshKey((key) => key + 1))
+      .catch((err) => console.error('Failed to update history:', err))
+  }
+
+  const showRevision = (revision: Revision) => {
+    setOutputPrompt(revision.optimizedPrompt)
+    setOutputRunId(revision.runId)
+    setOutputNegativePrompt(revision.negativePrompt)
+    setOutputSections(revision.sections)
+    setOutputCompliance(revision.compliance)
+    setOutputBudget(revision.budget)
+  }
+
+  const handleRestore = (entry: HistoryEntry) => {
+    const fields = promptTypeConfig[entry.type]?.advancedFields ?? []
+    setSelectedType(entry.type)
+    setInputPrompt(entry.input)
+    setOutputPrompt(entry.output)
+    setOutputRunId(entry.runId)
+    setOutputUsage(entry.usage)
+    setOutputModel(entry.model)
+    setOutputSource({ type: entry.type, target: entry.target, metaPromptVersion: entry.metaPromptVersion })
+    setOutputMaxLength(entry.maxLength)
+    setOutputNegativePrompt(entry.negativePrompt)
+    setOutputSections(entry.sections)
+    setOutputCompliance(undefined)
+    setOutputBudget(undefined)
+    setSelectedTarget(entry.target ?? "")
+    setAdvancedFields(fields.map((field) => entry.advancedFields[field.label] ?? ""))
+    setEngineFields((prev) => ({
+      ...prev,
+      model: entry.model && engineConfig?.models.includes(entry.model) ? entry.model : "",
+    }))
+    setVariants(entry.variants ?? [])
+    setSelectedVariant(entry.variants ? 0 : null)
+    setComparedVariants([])
+    setHistoryEntry(entry)
+    setClarifications(entry.clarifications)
+    setQuestions(null)
+    const restored = entry.revisions ?? [{
+      runId: entry.runId,
+      optimizedPrompt: entry.output,
+      negativePrompt: entry.negativePrompt,
+      sections: entry.sections,
+    }]
+    setRevisions(restored)
+    setActiveRevision(restored.length - 1)
+    setRefineInstruction("")
+    setError(null)
+  }
+
+  // The filled-in advanced fields, keyed by label
+  const buildAdvancedContext = () => {
+    const advancedContext: Record<string, string> = {}
+
+    selectedConfig?.advancedFields.forEach((field, index) => {
+      const value = advancedFields[index] ?? ""
+      if (value.trim()) {
+        advancedContext[field.label] = value
+      }
+    })
+    return advancedContext
+  }
+
+  // Builds the request from the current form, shared by optimizing and refining
+  const buildRequestBody = (answered: Clarification[] | undefined) => {
+    const advancedContext = buildAdvancedContext()
+    const body: OptimizeRequestBody = {
+      prompt: inputPrompt,
+      type: selectedType,
+      advancedFields: advancedContext,
+      options: toEngineOptions(engineFields),
+      target: activeTarget,
+      reask,
+      mode,
+      budget: budgetLimit.trim() ? { limit: Number(budgetLimit), unit: budgetUnit } : undefined,
+      clarifications: answered,
+    }
+    return { body, advancedContext }
+  }
 
   const handleOptimize = async () => {
     if (!inputPrompt.trim()) return
+    if (askFirst) {
+      await handleClarify()
+    } else {
+      await optimize()
+    }
+  }
 
+  // Asks what the prompt leaves open; a prompt that needs no questions is
+  // optimized right away
+  const handleClarify = async () => {
     setIsProcessing(true)
     setError(null)
-    
+    setQuestions(null)
+    let needsNoQuestions = false
+
     try {
-      // Build advanced fields context
-      const config = promptTypeConfig[selectedType]
-      const advancedContext: Record<string, string> = {}
-      
-      Object.entries(advancedFields).forEach(([key, value], index) => {
-        if (value.trim()) {
-          advancedContext[config.advancedFields[index].label] = value
-        }
-      })
+      const result = await askClarifyingQuestions(buildRequestBody(undefined).body)
+      if (result.questions.length === 0) {
+        needsNoQuestions = true
+      } else {
+        setQuestions(result.questions)
+        setAnswers({})
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while asking questions')
+      console.error('Clarifying questions error:', err)
+    } finally {
+      setIsProcessing(false)
+    }
+
+    if (needsNoQuestions) {
+      await optimize()
+    }
+  }
+
+  const handleSubmitAnswers = () => {
+    const answered = (questions ?? [])
+      .map((question) => ({ question: question.question, field: question.field, answer: (answers[question.id] ?? "").trim() }))
+      .filter((clarification) => clarification.answer)
+    optimize(answered.length > 0 ? answered : undefined)
+  }
+
+  const optimize = async (answered?: Clarification[]) => {
+    setIsProcessing(true)
+    setError(null)
+    setQuestions(null)
+    setClarifications(answered)
+
+    try {
+      const { body, advancedContext } = buildRequestBody(answered)
+      setHistoryEntry(null)
+      setRevisions([])
+      setActiveRevision(0)
+      setVariants([])
+      setSelectedVariant(null)
+      setOutputPrompt("")
+      setOutputRunId(undefined)
+      setOutputUsage(undefined)
+      setOutputModel(undefined)
+      setOutputSource(undefined)
+      setOutputMaxLength(undefined)
+      setOutputNegativePrompt(undefined)
+      setOutputSections(undefined)
+      setOutputCompliance(undefined)
+      setOutputBudget(undefined)
 
-      const optimized = await optimizePrompt(inputPrompt, selectedType, advancedContext)
-      setOutputPrompt(optimized)
+      if (variantMode === "1") {
+        const result = await optimizePrompt(body, setOutputPrompt)
+        setOutputPrompt(result.optimizedPrompt)
+        setOutputRunId(result.runId)
+        setOutputUsage(result.usage)
+        setOutputModel(result.model)
+        setOutputSource({ type: body.type, target: result.target, metaPromptVersion: result.metaPromptVersion })
+        setOutputMaxLength(result.maxLength)
+        setOutputNegativePrompt(result.negativePrompt)
+        setOutputSections(result.sections)
+        setOutputCompliance(result.compliance)
+        setOutputBudget(result.budget)
+        setRevisions([result])
+        saveToHistory({
+          input: inputPrompt,
+          type: selectedType,
+          advancedFields: advancedContext,
+          clarifications: answered,
+          output: result.optimizedPrompt,
+          negativePrompt: result.negativePrompt,
+          sections: result.sections,
+          target: result.target,
+          maxLength: result.maxLength,
+          runId: result.runId,
+          provider: result.provider,
+          model: result.model,
+          metaPromptVersion: result.metaPromptVersion,
+          usage: result.usage,
+        })
+      } else {
+        const result = await optimizeVariants(body, variantMode)
+        setVariants(result.variants)
+        // The output panel shows the highlighted first variant
+        showRevision(result.variants[0])
+        setRevisions([result.variants[0]])
+        setOutputUsage(result.usage)
+        setOutputModel(result.model)
+        setOutputSource({ type: body.type, target: result.target, metaPromptVersion: result.metaPromptVersion })
+        setOutputMaxLength(result.maxLength)
+        setSelectedVariant(0)
+        setComparedVariants([])
+        saveToHistory({
+          input: inputPrompt,
+          type: selectedType,
+          advancedFields: advancedContext,
+          clarifications: answered,
+          output: result.variants[0].optimizedPrompt,
+          negativePrompt: result.variants[0].negativePrompt,
+          sections: result.variants[0].sections,
+          target: result.target,
+          maxLength: result.maxLength,
+          variants: result.variants.map(({ runId, strategy, optimizedPrompt, negativePrompt, sections }) => ({
+            runId,
+            strategy,
+            optimizedPrompt,
+            negativePrompt,
+            sections,
+          })),
+          runId: result.variants[0].runId,
+          provider: result.provider,
+          model: result.model,
+          metaPromptVersion: result.metaPromptVersion,
+          usage: result.usage,
+        })
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred while optimizing')
       console.error('Optimization error:', err)
@@ -156,6 +618,131 @@ export function PromptOptimizerContent() {
     }
   }
 
+  // Sends the conversation so far back to the route so the model edits the
+  // shown revision, including any changes made to it by hand. Refining an
+  // earlier revision drops the ones after it.
+  const handleRefine = async () => {
+    const instruction = refineInstruction.trim()
+    if (isProcessing || !instruction || !inputPrompt.trim() || !outputPrompt) return
+
+    const current: Revision = {
+      ...revisions[activeRevision],
+      optimizedPrompt: outputPrompt,
+      negativePrompt: outputNegativePrompt,
+    }
+    const base = [...revisions.slice(0, activeRevision), current]
+
+    setIsProcessing(true)
+    setIsRefining(true)
+    setError(null)
+
+    try {
+      const { body } = buildRequestBody(clarifications)
+      setOutputPrompt("")
+      setOutputCompliance(undefined)
+      setOutputBudget(undefined)
+      const result = await optimizePrompt(
+        // Refine against what produced the output, not whatever the form says now
+        { ...body, ...outputSource, refinement: { revisions: base.map(toRevisionRequest), instruction } },
+        setOutputPrompt
+      )
+      const next = [...base, { ...result, instruction }]
+      setRevisions(next)
+      setActiveRevision(next.length - 1)
+      showRevision(result)
+      setOutputUsage(result.usage)
+      setOutputModel(result.model)
+      setRefineInstruction("")
+
+      const saved = next.map(({ instruction, runId, optimizedPrompt, negativePrompt, sections }) => ({
+        instruction,
+        runId,
+        optimizedPrompt,
+        negativePrompt,
+        sections,
+      }))
+      if (historyEntry) {
+        updateHistory({
+          ...historyEntry,
+          output: result.optimizedPrompt,
+          negativePrompt: result.negativePrompt,
+          sections: result.sections,
+          runId: result.runId,
+          revisions: saved,
+        })
+      } else {
+        saveToHistory({
+          input: inputPrompt,
+          type: selectedType,
+          advancedFields: body.advancedFields ?? {},
+          clarifications,
+          output: result.optimizedPrompt,
+          negativePrompt: result.negativePrompt,
+          sections: result.sections,
+          revisions: saved,
+          target: result.target,
+          maxLength: result.maxLength,
+          runId: result.runId,
+          provider: result.provider,
+          model: result.model,
+          metaPromptVersion: result.metaPromptVersion,
+          usage: result.usage,
+        })
+      }
+    } catch (err) {
+      // Put back the revision the refinement started from
+      showRevision(current)
+      setError(err instanceof Error ? err.message : 'An error occurred while refining')
+      console.error('Refinement error:', err)
+    } finally {
+      setIsProcessing(false)
+      setIsRefining(false)
+    }
+  }
+
+  const handleSelectRevision = (index: number) => {
+    setActiveRevision(index)
+    showRevision(revisions[index])
+    setOutputUsage(revisions[index].usage)
+  }
+
+  // Starts over from a template: its prompt and fields replace the current ones
+  const handleUseTemplate = (template: PromptTemplate) => {
+    const fields = promptTypeConfig[template.type]?.advancedFields ?? []
+    setSelectedType(template.type)
+    setInputPrompt(template.prompt)
+    setAdvancedFields(fields.map((field) => template.advancedFields[field.label] ?? ""))
+    setSelectedTarget(template.target ?? "")
+    if (Object.keys(template.advancedFields).length > 0) setShowAdvanced(true)
+    setShowTemplates(false)
+  }
+
+  const handleScore = async () => {
+    if (!inputPrompt.trim() || !outputPrompt.trim()) return
+
+    setIsScoring(true)
+    setError(null)
+
+    try {
+      const request = {
+        type: outputSource?.type ?? selectedType,
+        options: toEngineOptions(engineFields),
+        target: outputSource ? outputSource.target : activeTarget,
+        metaPromptVersion: outputSource?.metaPromptVersion,
+      }
+      const [before, after] = await Promise.all([
+        analyzePrompt({ ...request, prompt: inputPrompt }),
+        analyzePrompt({ ...request, prompt: outputPrompt }),
+      ])
+      setScores({ input: inputPrompt, output: outputPrompt, before, after })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while scoring')
+      console.error('Scoring error:', err)
+    } finally {
+      setIsScoring(false)
+    }
+  }
+
   const handleCopy = () => {
     navigator.clipboard.writeText(outputPrompt)
     setCopied(true)
@@ -164,26 +751,80 @@ export function PromptOptimizerContent() {
     }, 3000)
   }
 
+  const handleCopyNegative = () => {
+    if (!outputNegativePrompt) return
+    navigator.clipboard.writeText(outputNegativePrompt)
+    setCopiedNegative(true)
+    setTimeout(() => {
+      setCopiedNegative(false)
+    }, 3000)
+  }
+
+  const handleCopyVariant = (index: number) => {
+    navigator.clipboard.writeText(variants[index].optimizedPrompt)
+    setCopiedVariant(index)
+    setTimeout(() => {
+      setCopiedVariant(null)
+    }, 3000)
+  }
+
+  // The selected variant becomes the output to copy, diff, score and refine
+  const handleSelectVariant = (index: number) => {
+    if (index === selectedVariant) return
+    setSelectedVariant(index)
+    showRevision(variants[index])
+    // Refinements start over from the chosen variant
+    setRevisions([variants[index]])
+    setActiveRevision(0)
+  }
+
   const handleClear = () => {
     setInputPrompt("")
     setOutputPrompt("")
+    setOutputRunId(undefined)
+    setOutputUsage(undefined)
+    setOutputModel(undefined)
+    setOutputSource(undefined)
+    setOutputMaxLength(undefined)
+    setOutputNegativePrompt(undefined)
+    setOutputSections(undefined)
+    setOutputCompliance(undefined)
+    setOutputBudget(undefined)
+    setVariants([])
+    setSelectedVariant(null)
+    setComparedVariants([])
+    setHistoryEntry(null)
+    setRevisions([])
+    setActiveRevision(0)
+    setRefineInstruction("")
+    setQuestions(null)
+    setAnswers({})
+    setClarifications(undefined)
     setError(null)
   }
 
-  const handleAdvancedFieldChange = (fieldKey: keyof typeof advancedFields, value: string) => {
-    setAdvancedFields(prev => ({
+  const handleAdvancedFieldChange = (index: number, value: string) => {
+    setAdvancedFields(prev => {
+      const next = [...prev]
+      next[index] = value
+      return next
+    })
+  }
+
+  const handleEngineFieldChange = (fieldKey: keyof EngineFields, value: string) => {
+    setEngineFields(prev => ({
       ...prev,
       [fieldKey]: value,
     }))
   }
 
   const resetAdvancedFields = () => {
-    setAdvancedFields({
-      field1: "",
-      field2: "",
-      field3: "",
-      field4: "",
-    })
+    setAdvancedFields([])
+    setEngineFields(emptyEngineFields)
+    setReask(false)
+    setMode("optimize")
+    setBudgetLimit("")
+    setBudgetUnit("tokens")
   }
 
   return (
@@ -192,31 +833,55 @@ export function PromptOptimizerContent() {
       <div className="flex flex-col gap-2">
         <label className="text-white text-lg font-bold">Select Generation Type:</label>
         <div className="flex flex-wrap gap-2">
-          {(Object.keys(promptTypeConfig) as PromptType[]).map((type) => (
+          {promptTypes.map((type) => (
             <button
-              key={type}
-              onClick={() => setSelectedType(type)}
+              key={type.id}
+              onClick={() => setSelectedType(type.id)}
               className={`px-3 py-2 border-2 border-border text-lg transition-colors ${
-                selectedType === type
+                selectedType === type.id
                   ? "bg-primary text-primary-foreground"
                   : "bg-secondary text-card-foreground hover:bg-muted"
               }`}
             >
-              {promptTypeConfig[type].icon} {promptTypeConfig[type].label}
+              {type.icon} {type.label}
             </button>
           ))}
         </div>
       </div>
 
+      {/* Target Platform */}
+      {selectedConfig && selectedConfig.targets.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <label className="text-white text-lg font-bold">{selectedConfig.targetLabel}:</label>
+          <div className="flex flex-wrap gap-2">
+            {[{ id: "", label: "Any" }, ...selectedConfig.targets].map((target) => (
+              <button
+                key={target.id}
+                onClick={() => setSelectedTarget(target.id)}
+                className={`px-3 py-1 border-2 border-border text-sm transition-colors ${
+                  (activeTarget ?? "") === target.id
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-secondary text-card-foreground hover:bg-muted"
+                }`}
+              >
+                {target.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Tips Section */}
-      <div className="bg-secondary border-2 border-border p-3">
-        <p className="text-card-foreground text-sm font-bold mb-2">Tips for {promptTypeConfig[selectedType].label}:</p>
-        <ul className="text-card-foreground text-sm list-disc list-inside">
-          {promptTypeConfig[selectedType].tips.map((tip, i) => (
-            <li key={i}>{tip}</li>
-          ))}
-        </ul>
-      </div>
+      {selectedConfig && selectedConfig.tips.length > 0 && (
+        <div className="bg-secondary border-2 border-border p-3">
+          <p className="text-card-foreground text-sm font-bold mb-2">Tips for {selectedConfig.label}:</p>
+          <ul className="text-card-foreground text-sm list-disc list-inside">
+            {selectedConfig.tips.map((tip, i) => (
+              <li key={i}>{tip}</li>
+            ))}
+          </ul>
+        </div>
+      )}
 
       {/* Input Area */}
       <div className="flex flex-col gap-2">
@@ -227,6 +892,12 @@ export function PromptOptimizerContent() {
           placeholder="Enter your prompt here..."
           className="w-full h-32 min-h-[8rem] max-h-[32rem] p-3 bg-input border-2 border-border text-lg text-card-foreground placeholder:text-muted-foreground resize-y focus:outline-none focus:border-primary font-mono"
         />
+        {inputPrompt && <TokenEstimate tokens={inputTokens} price={pricingPrice} />}
+        {inputPlaceholders.length > 0 && (
+          <p className="text-muted-foreground text-xs">
+            Template placeholders kept as written: <span className="font-mono">{inputPlaceholders.join(", ")}</span>
+          </p>
+        )}
       </div>
 
       {/* Advanced Fields */}
@@ -241,29 +912,153 @@ export function PromptOptimizerContent() {
               Reset All
             </button>
           </div>
-          {promptTypeConfig[selectedType].advancedFields.map((field, i) => (
+          {selectedConfig?.advancedFields.map((field, i) => (
             <div key={i} className="flex flex-col gap-1">
               <label className="text-card-foreground text-sm">{field.label}:</label>
               <input
                 type="text"
-                value={advancedFields[`field${i + 1}` as keyof typeof advancedFields]}
-                onChange={(e) => handleAdvancedFieldChange(`field${i + 1}` as keyof typeof advancedFields, e.target.value)}
+                value={advancedFields[i] ?? ""}
+                onChange={(e) => handleAdvancedFieldChange(i, e.target.value)}
                 placeholder={field.placeholder}
                 className="w-full p-2 bg-input border-2 border-border text-sm text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary"
               />
             </div>
           ))}
+
+          {/* Engine */}
+          <div className="border-t-2 border-border pt-3 space-y-3">
+            <p className="text-card-foreground text-sm font-bold">Engine:</p>
+            <div className="flex flex-col gap-1">
+              <label className="text-card-foreground text-sm">Model:</label>
+              <select
+                value={engineFields.model}
+                onChange={(e) => handleEngineFieldChange("model", e.target.value)}
+                disabled={!engineConfig}
+                className="w-full p-2 bg-input border-2 border-border text-sm text-card-foreground focus:outline-none focus:border-primary"
+              >
+                <option value="">
+                  {engineConfig ? `Default (${engineConfig.defaultModel})` : "Default"}
+                </option>
+                {engineConfig?.models.map((model) => (
+                  <option key={model} value={model}>{model}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="flex flex-col gap-1">
+                <label className="text-card-foreground text-sm">Temperature (0–2):</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={engineFields.temperature}
+                  onChange={(e) => handleEngineFieldChange("temperature", e.target.value)}
+                  placeholder={engineConfig ? String(engineConfig.defaults.temperature) : ""}
+                  className="w-full p-2 bg-input border-2 border-border text-sm text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary"
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className="text-card-foreground text-sm">Top P (0–1):</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={engineFields.topP}
+                  onChange={(e) => handleEngineFieldChange("topP", e.target.value)}
+                  placeholder="1"
+                  className="w-full p-2 bg-input border-2 border-border text-sm text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary"
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className="text-card-foreground text-sm">Max Tokens:</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={engineConfig?.limits.maxTokens}
+                  step={1}
+                  value={engineFields.maxTokens}
+                  onChange={(e) => handleEngineFieldChange("maxTokens", e.target.value)}
+                  placeholder={engineConfig ? String(engineConfig.defaults.maxTokens) : ""}
+                  className="w-full p-2 bg-input border-2 border-border text-sm text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary"
+                />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className="text-card-foreground text-sm">Seed:</label>
+                <input
+                  type="number"
+                  step={1}
+                  value={engineFields.seed}
+                  onChange={(e) => handleEngineFieldChange("seed", e.target.value)}
+                  placeholder="Random"
+                  className="w-full p-2 bg-input border-2 border-border text-sm text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary"
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-card-foreground text-sm">
+              <input
+                type="checkbox"
+                checked={reask}
+                onChange={(e) => setReask(e.target.checked)}
+              />
+              Re-ask the model once if the output breaks a rule
+            </label>
+          </div>
+
+          {/* Length */}
+          <div className="border-t-2 border-border pt-3 space-y-3">
+            <p className="text-card-foreground text-sm font-bold">Length:</p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="flex flex-col gap-1">
+                <label className="text-card-foreground text-sm">Mode:</label>
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as OptimizeMode)}
+                  className="w-full p-2 bg-input border-2 border-border text-sm text-card-foreground focus:outline-none focus:border-primary"
+                >
+                  <option value="optimize">Optimize (expand)</option>
+                  <option value="compress">Compress (shorten)</option>
+                </select>
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className="text-card-foreground text-sm">Budget:</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={budgetLimit}
+                    onChange={(e) => setBudgetLimit(e.target.value)}
+                    placeholder="No limit"
+                    className="w-full p-2 bg-input border-2 border-border text-sm text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary"
+                  />
+                  <select
+                    value={budgetUnit}
+                    onChange={(e) => setBudgetUnit(e.target.value as BudgetUnit)}
+                    aria-label="Budget unit"
+                    className="p-2 bg-input border-2 border-border text-sm text-card-foreground focus:outline-none focus:border-primary"
+                  >
+                    <option value="tokens">tokens</option>
+                    <option value="characters">characters</option>
+                  </select>
+                </div>
+              </div>
+            </div>
+          </div>
         </div>
       )}
 
       {/* Action Buttons */}
-      <div className="flex gap-2">
+      <div className="flex flex-wrap gap-2">
         <button
           onClick={handleOptimize}
           disabled={!inputPrompt.trim() || isProcessing}
           className="px-4 py-2 bg-primary text-primary-foreground border-2 border-border text-lg font-bold hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed shadow-[2px_2px_0px_0px_rgba(0,0,0,0.5)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px]"
         >
-          {isProcessing ? "Optimizing..." : outputPrompt ? "Regenerate Prompt" : "Optimize Prompt"}
+          {isProcessing && !isRefining
+            ? mode === "compress" ? "Compressing..." : "Optimizing..."
+            : outputPrompt ? "Regenerate Prompt" : mode === "compress" ? "Compress Prompt" : "Optimize Prompt"}
         </button>
         <button
           onClick={handleClear}
@@ -281,8 +1076,85 @@ export function PromptOptimizerContent() {
         >
           Advanced {showAdvanced ? "▲" : "▼"}
         </button>
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className={`px-4 py-2 border-2 border-border text-lg shadow-[2px_2px_0px_0px_rgba(0,0,0,0.5)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px] ${
+            showHistory
+              ? "bg-primary text-primary-foreground"
+              : "bg-secondary text-card-foreground hover:bg-muted"
+          }`}
+        >
+          History {showHistory ? "▲" : "▼"}
+        </button>
+        <button
+          onClick={() => setShowTemplates(!showTemplates)}
+          className={`px-4 py-2 border-2 border-border text-lg shadow-[2px_2px_0px_0px_rgba(0,0,0,0.5)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px] ${
+            showTemplates
+              ? "bg-primary text-primary-foreground"
+              : "bg-secondary text-card-foreground hover:bg-muted"
+          }`}
+        >
+          Templates {showTemplates ? "▲" : "▼"}
+        </button>
+        <button
+          onClick={() => setShowBatch(!showBatch)}
+          className={`px-4 py-2 border-2 border-border text-lg shadow-[2px_2px_0px_0px_rgba(0,0,0,0.5)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px] ${
+            showBatch
+              ? "bg-primary text-primary-foreground"
+              : "bg-secondary text-card-foreground hover:bg-muted"
+          }`}
+        >
+          Batch {showBatch ? "▲" : "▼"}
+        </button>
+        <select
+          value={variantMode}
+          onChange={(e) => setVariantMode(e.target.value as VariantMode)}
+          aria-label="Variants"
+          className="px-2 py-2 bg-secondary text-card-foreground border-2 border-border text-lg focus:outline-none focus:border-primary"
+        >
+          {(Object.keys(variantModes) as VariantMode[]).map((mode) => (
+            <option key={mode} value={mode}>{variantModes[mode]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-white text-sm">
+          <input
+            type="checkbox"
+            checked={askFirst}
+            onChange={(e) => setAskFirst(e.target.checked)}
+          />
+          Ask questions first
+        </label>
       </div>
 
+      {/* History */}
+      {showHistory && (
+        <PromptHistory
+          types={promptTypeConfig}
+          refreshKey={historyRefreshKey}
+          onRestore={handleRestore}
+        />
+      )}
+
+      {/* Templates */}
+      {showTemplates && selectedConfig && (
+        <PromptTemplates
+          type={selectedType}
+          typeLabel={selectedConfig.label}
+          current={{ prompt: inputPrompt, advancedFields: buildAdvancedContext(), target: activeTarget }}
+          onUse={handleUseTemplate}
+        />
+      )}
+
+      {/* Batch */}
+      {showBatch && (
+        <BatchOptimizer
+          defaultType={selectedType}
+          types={promptTypeConfig}
+          options={toEngineOptions(engineFields)}
+          reask={reask}
+        />
+      )}
+
       {/* Error Display */}
       {error && (
         <div className="bg-red-500/20 border-2 border-red-500 p-3 text-red-500">
@@ -291,24 +1163,226 @@ export function PromptOptimizerContent() {
         </div>
       )}
 
+      {/* Clarifying Questions */}
+      {questions && (
+        <ClarifyingQuestions
+          questions={questions}
+          answers={answers}
+          onAnswerChange={(id, answer) => setAnswers((prev) => ({ ...prev, [id]: answer }))}
+          onSubmit={handleSubmitAnswers}
+          onSkip={() => optimize()}
+          disabled={isProcessing}
+        />
+      )}
+
+      {/* Variants */}
+      {variants.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <label className="text-white text-lg font-bold">Variants:</label>
+          <div className="grid gap-3 md:grid-cols-2">
+            {variants.map((variant, i) => (
+              <div
+                key={i}
+                onClick={() => handleSelectVariant(i)}
+                className={`flex flex-col gap-2 p-3 border-2 cursor-pointer ${
+                  selectedVariant === i ? "border-primary bg-secondary" : "border-border bg-input"
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <p className="text-card-foreground text-sm font-bold">
+                    {variantLabel(variant, i)}
+                  </p>
+                  {variant.usage && (
+                    <span className="text-muted-foreground text-xs">{variant.usage.completion_tokens} tokens</span>
+                  )}
+                </div>
+                <p className="text-card-foreground text-sm whitespace-pre-wrap font-mono max-h-48 overflow-auto">
+                  {variant.optimizedPrompt}
+                </p>
+                {variant.negativePrompt && (
+                  <p className="text-muted-foreground text-xs whitespace-pre-wrap font-mono">
+                    <span className="font-bold">Negative prompt:</span> {variant.negativePrompt}
+                  </p>
+                )}
+                {variant.sections?.map((section) => (
+                  <p key={section.name} className="text-muted-foreground text-xs whitespace-pre-wrap font-mono">
+                    <span className="font-bold">{section.label}:</span> {section.content}
+                  </p>
+                ))}
+                <div className="flex gap-2">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleCopyVariant(i)
+                    }}
+                    className="px-2 py-1 bg-secondary text-card-foreground border-2 border-border text-xs hover:bg-muted"
+                  >
+                    {copiedVariant === i ? "Copied!" : "Copy"}
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setComparedVariants((prev) => toggleComparison(prev, i))
+                    }}
+                    className={`px-2 py-1 border-2 border-border text-xs ${
+                      comparedVariants.includes(i)
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-secondary text-card-foreground hover:bg-muted"
+                    }`}
+                  >
+                    Compare
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          {comparedVariants.length === 2 && (
+            <PromptDiff
+              before={variants[comparedVariants[0]].optimizedPrompt}
+              after={variants[comparedVariants[1]].optimizedPrompt}
+              beforeLabel={variantLabel(variants[comparedVariants[0]], comparedVariants[0])}
+              afterLabel={variantLabel(variants[comparedVariants[1]], comparedVariants[1])}
+            />
+          )}
+        </div>
+      )}
+
       {/* Output Area */}
       {outputPrompt && (
         <div className="flex flex-col gap-2 flex-1 min-h-0">
           <div className="flex items-center justify-between">
             <label className="text-white text-lg font-bold">Optimized Prompt:</label>
-            <button
-              onClick={handleCopy}
-              className="px-3 py-1 bg-secondary text-card-foreground border-2 border-border text-sm hover:bg-muted"
-            >
-              {copied ? "Copied!" : "Copy to Clipboard"}
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={handleScore}
+                disabled={isScoring || isProcessing || !inputPrompt.trim()}
+                className="px-3 py-1 bg-secondary text-card-foreground border-2 border-border text-sm hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isScoring ? "Scoring..." : "Score Prompts"}
+              </button>
+              <button
+                onClick={() => setShowDiff(!showDiff)}
+                className={`px-3 py-1 border-2 border-border text-sm ${
+                  showDiff
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-secondary text-card-foreground hover:bg-muted"
+                }`}
+              >
+                {showDiff ? "Hide Changes" : "Show Changes"}
+              </button>
+              <button
+                onClick={handleCopy}
+                className="px-3 py-1 bg-secondary text-card-foreground border-2 border-border text-sm hover:bg-muted"
+              >
+                {copied ? "Copied!" : "Copy to Clipboard"}
+              </button>
+            </div>
           </div>
           <textarea
             value={outputPrompt}
             onChange={(e) => setOutputPrompt(e.target.value)}
+            readOnly={isProcessing}
             placeholder="Your optimized prompt will appear here..."
             className="w-full min-h-[16rem] max-h-[48rem] p-3 bg-input border-2 border-border text-lg text-black placeholder:text-muted-foreground whitespace-pre-wrap font-mono overflow-auto resize-y focus:outline-none focus:border-primary"
           />
+          {showDiff && !isProcessing && (
+            <div className="bg-secondary border-2 border-border p-3">
+              <PromptDiff before={inputPrompt} after={outputPrompt} beforeLabel="Your Prompt" afterLabel="Optimized Prompt" />
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-3">
+            <TokenEstimate tokens={outputTokens} price={pricingPrice} baseline={inputTokens} />
+            {outputMaxLength !== undefined && !isProcessing && (
+              <CharacterCount length={outputPrompt.length} maxLength={outputMaxLength} />
+            )}
+          </div>
+          {outputBudget && !isProcessing && <BudgetStatus budget={outputBudget} />}
+          {outputUsage && !isProcessing && (
+            <UsageSummary
+              usage={outputUsage}
+              model={outputModel}
+              price={engineConfig && outputModel ? findModelPrice(engineConfig.prices, outputModel) : undefined}
+            />
+          )}
+          {outputNegativePrompt && !isProcessing && (
+            <div className="flex flex-col gap-1">
+              <div className="flex items-center justify-between">
+                <label className="text-white text-sm font-bold">Negative Prompt:</label>
+                <button
+                  onClick={handleCopyNegative}
+                  className="px-3 py-1 bg-secondary text-card-foreground border-2 border-border text-sm hover:bg-muted"
+                >
+                  {copiedNegative ? "Copied!" : "Copy to Clipboard"}
+                </button>
+              </div>
+              <textarea
+                value={outputNegativePrompt}
+                onChange={(e) => setOutputNegativePrompt(e.target.value)}
+                className="w-full min-h-[4rem] p-3 bg-input border-2 border-border text-sm text-black whitespace-pre-wrap font-mono resize-y focus:outline-none focus:border-primary"
+              />
+            </div>
+          )}
+          {outputSections && !isProcessing && <PromptSections sections={outputSections} />}
+          {!isProcessing && <TemplateFill prompt={outputPrompt} />}
+          {outputCompliance && !isProcessing && <PromptCompliance compliance={outputCompliance} />}
+          {scores && scores.input === inputPrompt && scores.output === outputPrompt && !isProcessing && (
+            <PromptScores before={scores.before} after={scores.after} />
+          )}
+          {outputRunId && !isProcessing && <PromptFeedback key={outputRunId} runId={outputRunId} />}
+
+          {/* Refinement */}
+          <div className="bg-secondary border-2 border-border p-3 flex flex-col gap-2">
+            {revisions.length > 1 && (
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  onClick={() => handleSelectRevision(activeRevision - 1)}
+                  disabled={activeRevision === 0 || isProcessing}
+                  className="px-2 py-1 bg-secondary text-card-foreground border-2 border-border text-xs hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  ◀ Previous
+                </button>
+                <p className="text-card-foreground text-sm text-center">
+                  <span className="font-bold">Revision {activeRevision + 1} of {revisions.length}</span>
+                  {revisions[activeRevision]?.instruction
+                    ? `: ${revisions[activeRevision].instruction}`
+                    : ": original optimization"}
+                </p>
+                <button
+                  onClick={() => handleSelectRevision(activeRevision + 1)}
+                  disabled={activeRevision === revisions.length - 1 || isProcessing}
+                  className="px-2 py-1 bg-secondary text-card-foreground border-2 border-border text-xs hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next ▶
+                </button>
+              </div>
+            )}
+            <label className="text-card-foreground text-sm font-bold">Refine:</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={refineInstruction}
+                onChange={(e) => setRefineInstruction(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleRefine()
+                }}
+                placeholder='e.g. "make it darker" or "drop the Jest tests"'
+                disabled={isProcessing}
+                className="w-full p-2 bg-input border-2 border-border text-sm text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary disabled:opacity-50"
+              />
+              <button
+                onClick={handleRefine}
+                disabled={!refineInstruction.trim() || !inputPrompt.trim() || isProcessing}
+                className="px-3 py-1 bg-primary text-primary-foreground border-2 border-border text-sm font-bold hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isRefining ? "Refining..." : "Refine"}
+              </button>
+            </div>
+            {activeRevision < revisions.length - 1 && (
+              <p className="text-muted-foreground text-xs">
+                Refining this revision replaces the {revisions.length - 1 - activeRevision} after it.
+              </p>
+            )}
+          </div>
         </div>
       )}
 
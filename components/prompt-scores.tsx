@@ -0,0 +1,93 @@
+"use client"
+
+import type { AnalysisCriterion, PromptAnalysis } from "@/lib/analyze"
+
+const criterionLabels: Record<AnalysisCriterion, string> = {
+  specificity: "Specificity",
+  context: "Context",
+  constraints: "Constraints",
+  format: "Format",
+  ambiguity: "Clarity",
+}
+
+function ScoreChange({ before, after }: { before: number; after: number }) {
+  const change = Math.round((after - before) * 10) / 10
+  if (change === 0) return <span className="text-muted-foreground">±0</span>
+  return (
+    <span className={change > 0 ? "text-green-500 font-bold" : "text-red-500 font-bold"}>
+      {change > 0 ? `+${change}` : change}
+    </span>
+  )
+}
+
+function requirementsMet(analysis: PromptAnalysis) {
+  return `${analysis.requirements.filter((requirement) => requirement.passed).length} / ${analysis.requirements.length}`
+}
+
+interface PromptScoresProps {
+  before: PromptAnalysis
+  after: PromptAnalysis
+}
+
+// Side-by-side scores for the user's prompt and the optimized one, so it is
+// clear what the optimizer improved and what is still missing
+export function PromptScores({ before, after }: PromptScoresProps) {
+  return (
+    <div className="bg-secondary border-2 border-border p-3 flex flex-col gap-3 text-sm text-card-foreground">
+      <table className="w-full text-left">
+        <thead>
+          <tr className="border-b-2 border-border">
+            <th className="py-1 font-bold">Criterion</th>
+            <th className="py-1 font-bold">Your Prompt</th>
+            <th className="py-1 font-bold">Optimized</th>
+            <th className="py-1 font-bold">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {after.criteria.map((criterion) => {
+            const original = before.criteria.find((candidate) => candidate.name === criterion.name)
+            return (
+              <tr key={criterion.name} className="border-b border-border">
+                <td className="py-1">{criterionLabels[criterion.name]}</td>
+                <td className="py-1" title={original?.comment}>{original?.score ?? "–"}</td>
+                <td className="py-1" title={criterion.comment}>{criterion.score}</td>
+                <td className="py-1">{original && <ScoreChange before={original.score} after={criterion.score} />}</td>
+              </tr>
+            )
+          })}
+          <tr className="font-bold">
+            <td className="py-1">Overall</td>
+            <td className="py-1">{before.score}</td>
+            <td className="py-1">{after.score}</td>
+            <td className="py-1"><ScoreChange before={before.score} after={after.score} /></td>
+          </tr>
+        </tbody>
+      </table>
+      {after.requirements.length > 0 && (
+        <p className="text-muted-foreground text-xs">
+          Type requirements met: {requirementsMet(before)} before, {requirementsMet(after)} after.
+        </p>
+      )}
+      {before.suggestions.length > 0 && (
+        <div>
+          <p className="font-bold">What your prompt was missing:</p>
+          <ul className="list-disc pl-5">
+            {before.suggestions.map((suggestion, i) => (
+              <li key={i}>{suggestion}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {after.suggestions.length > 0 && (
+        <div>
+          <p className="font-bold">Could still improve:</p>
+          <ul className="list-disc pl-5">
+            {after.suggestions.map((suggestion, i) => (
+              <li key={i}>{suggestion}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
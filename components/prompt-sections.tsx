@@ -0,0 +1,62 @@
+"use client"
+
+import { useState } from "react"
+import type { OutputSection } from "@/lib/meta-prompt"
+
+interface CharacterCountProps {
+  length: number
+  maxLength: number
+}
+
+// Counter against a platform's field limit, highlighted once it is exceeded
+export function CharacterCount({ length, maxLength }: CharacterCountProps) {
+  return (
+    <span className={`text-xs ${length > maxLength ? "text-red-500 font-bold" : "text-muted-foreground"}`}>
+      {length} / {maxLength} characters
+    </span>
+  )
+}
+
+interface PromptSectionsProps {
+  sections: OutputSection[]
+}
+
+// The parts of a target platform's output that are pasted separately from the
+// prompt, such as Midjourney parameters
+export function PromptSections({ sections }: PromptSectionsProps) {
+  const [copiedSection, setCopiedSection] = useState<string | null>(null)
+
+  const handleCopy = (section: OutputSection) => {
+    navigator.clipboard.writeText(section.content)
+    setCopiedSection(section.name)
+    setTimeout(() => {
+      setCopiedSection(null)
+    }, 3000)
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {sections.map((section) => (
+        <div key={section.name} className="flex flex-col gap-1">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <label className="text-white text-sm font-bold">{section.label}:</label>
+              {section.maxLength !== undefined && (
+                <CharacterCount length={section.content.length} maxLength={section.maxLength} />
+              )}
+            </div>
+            <button
+              onClick={() => handleCopy(section)}
+              className="px-3 py-1 bg-secondary text-card-foreground border-2 border-border text-sm hover:bg-muted"
+            >
+              {copiedSection === section.name ? "Copied!" : "Copy"}
+            </button>
+          </div>
+          <p className="p-3 bg-input border-2 border-border text-sm text-black whitespace-pre-wrap font-mono">
+            {section.content}
+          </p>
+        </div>
+      ))}
+    </div>
+  )
+}
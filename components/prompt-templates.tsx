@@ -0,0 +1,171 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { PromptType } from "@/lib/optimizer"
+import type { PromptTemplate } from "@/lib/templates"
+
+interface PromptTemplatesProps {
+  type: PromptType
+  typeLabel: string
+  // What "Save as Template" stores
+  current: {
+    prompt: string
+    advancedFields: Record<string, string>
+    target?: string
+  }
+  onUse: (template: PromptTemplate) => void
+}
+
+async function loadTemplates(type: PromptType): Promise<PromptTemplate[]> {
+  const response = await fetch(`/api/templates?type=${encodeURIComponent(type)}`)
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.error || 'Failed to load templates')
+  }
+
+  const data: { templates: PromptTemplate[] } = await response.json()
+  return data.templates
+}
+
+async function saveTemplate(template: Omit<PromptTemplate, "id">): Promise<PromptTemplate> {
+  const response = await fetch('/api/templates', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(template),
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.details ? `${error.error}: ${error.details}` : error.error || 'Failed to save template')
+  }
+
+  const data: { template: PromptTemplate } = await response.json()
+  return data.template
+}
+
+// The team's starter templates for the selected type, stored in `templates/`
+export function PromptTemplates({ type, typeLabel, current, onUse }: PromptTemplatesProps) {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([])
+  const [search, setSearch] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [label, setLabel] = useState("")
+  const [description, setDescription] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const [saved, setSaved] = useState<string | null>(null)
+
+  const reload = () => {
+    loadTemplates(type)
+      .then((loaded) => {
+        setTemplates(loaded)
+        setError(null)
+      })
+      .catch((err) => {
+        console.error("Failed to load templates:", err)
+        setError(err instanceof Error ? err.message : "Failed to load templates")
+      })
+  }
+
+  useEffect(reload, [type])
+
+  const handleSave = async () => {
+    if (!label.trim() || !current.prompt.trim()) return
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const template = await saveTemplate({
+        type,
+        label,
+        description,
+        prompt: current.prompt,
+        advancedFields: current.advancedFields,
+        target: current.target,
+      })
+      setSaved(template.label)
+      setLabel("")
+      setDescription("")
+      reload()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save template")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean)
+  const visibleTemplates = templates.filter((template) => {
+    const haystack = `${template.label}\n${template.description}\n${template.prompt}`.toLowerCase()
+    return terms.every((term) => haystack.includes(term))
+  })
+
+  return (
+    <div className="bg-secondary border-2 border-border p-4 space-y-3">
+      <p className="text-card-foreground text-sm font-bold">{typeLabel} Templates:</p>
+      <input
+        type="text"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search templates..."
+        className="w-full p-2 bg-input border-2 border-border text-sm text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary"
+      />
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      {visibleTemplates.length === 0 ? (
+        <p className="text-muted-foreground text-sm">
+          {templates.length === 0 ? "No templates for this type yet." : "No templates match your search."}
+        </p>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-auto">
+          {visibleTemplates.map((template) => (
+            <li key={template.id} className="bg-input border-2 border-border p-2 flex flex-col gap-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-card-foreground text-sm font-bold">{template.label}</span>
+                <button
+                  onClick={() => onUse(template)}
+                  className="px-2 py-1 bg-primary text-primary-foreground border-2 border-border text-xs hover:bg-accent"
+                >
+                  Use
+                </button>
+              </div>
+              {template.description && <p className="text-muted-foreground text-xs">{template.description}</p>}
+              <p className="text-card-foreground text-xs font-mono line-clamp-2">{template.prompt}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Save */}
+      <div className="border-t-2 border-border pt-3 flex flex-col gap-2">
+        <p className="text-card-foreground text-sm font-bold">Save Current Prompt as Template:</p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Name"
+            className="w-1/3 p-2 bg-input border-2 border-border text-sm text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary"
+          />
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className="flex-1 p-2 bg-input border-2 border-border text-sm text-card-foreground placeholder:text-muted-foreground focus:outline-none focus:border-primary"
+          />
+          <button
+            onClick={handleSave}
+            disabled={!label.trim() || !current.prompt.trim() || isSaving}
+            className="px-3 py-1 bg-primary text-primary-foreground border-2 border-border text-sm font-bold hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </button>
+        </div>
+        {saved && <p className="text-muted-foreground text-xs">Saved &quot;{saved}&quot;.</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useState } from "react"
+import { fillPlaceholders, findPlaceholders, placeholderName } from "@/lib/placeholders"
+
+interface TemplateFillProps {
+  prompt: string
+}
+
+// Fill-in form for the optimized prompt's placeholders. Values are kept by
+// name, so they carry over to regenerated and refined prompts.
+export function TemplateFill({ prompt }: TemplateFillProps) {
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [copied, setCopied] = useState(false)
+
+  const names = [...new Set(findPlaceholders(prompt).map(placeholderName))]
+  if (names.length === 0) return null
+
+  const filled = fillPlaceholders(prompt, values)
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(filled)
+    setCopied(true)
+    setTimeout(() => {
+      setCopied(false)
+    }, 3000)
+  }
+
+  return (
+    <div className="bg-secondary border-2 border-border p-3 flex flex-col gap-2">
+      <p className="text-card-foreground text-sm font-bold">Template Variables:</p>
+      <div className="grid gap-2 md:grid-cols-2">
+        {names.map((name) => (
+          <div key={name} className="flex flex-col gap-1">
+            <label className="text-card-foreground text-sm font-mono">{name}:</label>
+            <input
+              type="text"
+              value={values[name] ?? ""}
+              onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+              className="w-full p-2 bg-input border-2 border-border text-sm text-card-foreground focus:outline-none focus:border-primary"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-card-foreground text-sm font-bold">Filled Prompt:</label>
+        <button
+          onClick={handleCopy}
+          className="px-3 py-1 bg-secondary text-card-foreground border-2 border-border text-sm hover:bg-muted"
+        >
+          {copied ? "Copied!" : "Copy Filled Prompt"}
+        </button>
+      </div>
+      <p className="p-3 bg-input border-2 border-border text-sm text-black whitespace-pre-wrap font-mono">
+        {filled}
+      </p>
+    </div>
+  )
+}
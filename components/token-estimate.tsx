@@ -0,0 +1,67 @@
+"use client"
+
+import { estimateCost, formatCost, type ModelPrice } from "@/lib/pricing"
+
+interface TokenEstimateProps {
+  tokens: number | null
+  // Price of the model the prompt will be sent to
+  price?: ModelPrice
+  // Token count of the original prompt, to show how much the output grew
+  baseline?: number | null
+}
+
+// Token count of a prompt and what sending it costs as model input
+export function TokenEstimate({ tokens, price, baseline }: TokenEstimateProps) {
+  if (tokens === null) {
+    return <span className="text-muted-foreground text-xs">Counting tokens...</span>
+  }
+
+  return (
+    <span className="text-muted-foreground text-xs">
+      {tokens} tokens
+      {price && <> · {formatCost(estimateCost(price, tokens))} per call</>}
+      {baseline ? <> · {(tokens / baseline).toFixed(1)}× the original</> : null}
+    </span>
+  )
+}
+
+interface BudgetStatusProps {
+  budget: {
+    limit: number
+    unit: "tokens" | "characters"
+    length: number
+    met: boolean
+    retries: number
+  }
+}
+
+// Whether the returned prompt fits the requested length budget
+export function BudgetStatus({ budget }: BudgetStatusProps) {
+  const retries = budget.retries > 0 ? ` after ${budget.retries} ${budget.retries === 1 ? "retry" : "retries"}` : ""
+  return (
+    <p className={`text-xs ${budget.met ? "text-muted-foreground" : "text-red-500 font-bold"}`}>
+      Budget: {budget.length} / {budget.limit} {budget.unit}
+      {budget.met ? ` fits${retries}` : ` still over budget${retries}`}
+    </p>
+  )
+}
+
+interface UsageSummaryProps {
+  usage: {
+    prompt_tokens: number
+    completion_tokens: number
+  }
+  model?: string
+  price?: ModelPrice
+}
+
+// What the optimization request itself used, as reported by the provider
+export function UsageSummary({ usage, model, price }: UsageSummaryProps) {
+  return (
+    <p className="text-muted-foreground text-xs">
+      Optimization used {usage.prompt_tokens} prompt + {usage.completion_tokens} completion tokens
+      {model && <> on {model}</>}
+      {price && <> · {formatCost(estimateCost(price, usage.prompt_tokens, usage.completion_tokens))}</>}
+    </p>
+  )
+}
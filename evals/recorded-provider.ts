@@ -0,0 +1,88 @@
+import { createHash } from 'crypto'
+import { readFile, writeFile } from 'fs/promises'
+import { ProviderError, type CompletionRequest, type LLMProvider, type Usage } from '@/lib/providers'
+
+export interface Recording {
+  caseId: string
+  metaPromptVersion: string
+  model: string
+  content: string
+  usage?: Usage
+}
+
+export type Recordings = Record<string, Recording>
+
+// Recordings are keyed by everything that can change the model's answer, so
+// editing a meta-prompt or its examples invalidates the affected entries
+export function recordingKey(request: CompletionRequest): string {
+  const { signal, ...rest } = request
+  return createHash('sha256').update(JSON.stringify(rest)).digest('hex').slice(0, 16)
+}
+
+export async function loadRecordings(path: string): Promise<Recordings> {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {}
+    throw error
+  }
+}
+
+export async function saveRecordings(path: string, recordings: Recordings): Promise<void> {
+  const sorted = Object.fromEntries(
+    Object.entries(recordings).sort(([, a], [, b]) => a.caseId.localeCompare(b.caseId) || a.metaPromptVersion.localeCompare(b.metaPromptVersion))
+  )
+  await writeFile(path, `${JSON.stringify(sorted, null, 2)}\n`, 'utf-8')
+}
+
+export interface RecordedProviderOptions {
+  recordings: Recordings
+  // Which case and meta-prompt version the next completion belongs to
+  label: () => Pick<Recording, 'caseId' | 'metaPromptVersion'>
+  // When set, misses are forwarded here and the answers recorded
+  upstream?: LLMProvider
+}
+
+// Replays recorded completions so evaluations run offline. Without an
+// upstream provider a request that was never recorded fails.
+export function createRecordedProvider({ recordings, label, upstream }: RecordedProviderOptions): LLMProvider {
+  const recordedModels = Array.from(new Set(Object.values(recordings).map((recording) => recording.model)))
+  const defaultModel = upstream?.defaultModel ?? recordedModels[0] ?? 'gpt-4o-mini'
+
+  const complete = async (request: CompletionRequest) => {
+    const key = recordingKey(request)
+    const recording = recordings[key]
+    if (recording) {
+      return { content: recording.content, model: recording.model, usage: recording.usage }
+    }
+
+    if (!upstream) {
+      throw new ProviderError('No recording for this request; run the evaluation with --record', 404, key)
+    }
+
+    // Record the requested model rather than the dated name the API reports,
+    // so the replayed provider allows the same model the request asked for
+    const completion = await upstream.complete(request)
+    recordings[key] = {
+      ...label(),
+      model: request.model ?? upstream.defaultModel,
+      content: completion.content,
+      usage: completion.usage,
+    }
+    return completion
+  }
+
+  return {
+    id: upstream ? `recording:${upstream.id}` : 'recorded',
+    defaultModel,
+    models: upstream?.models ?? (recordedModels.length > 0 ? recordedModels : [defaultModel]),
+    complete,
+    async *stream(request) {
+      const completion = await complete(request)
+      yield { type: 'delta', content: completion.content }
+      if (completion.usage) {
+        yield { type: 'usage', usage: completion.usage }
+      }
+    },
+  }
+}
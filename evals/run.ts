@@ -0,0 +1,223 @@
+// Offline evaluation of the meta-prompts: runs every golden case through the
+// optimize pipeline against recorded completions and scores the outputs with
+// the compliance checks. Checks the pipeline's cleanup had to fix are reported
+// separately, since they still point at a meta-prompt the model drifts from.
+//
+//   npm run eval                         replay recordings, all types and versions
+//   npm run eval -- --type video         one type
+//   npm run eval -- --version 3          one meta-prompt version
+//   npm run eval -- --record             call the configured provider for cases
+//                                        without a recording and save the answers
+//   npm run eval -- --baseline <report>  compare against an earlier report
+//   npm run eval -- --out <report>       where to write the report
+//                                        (default evals/reports/latest.json)
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+import { parseArgs } from 'util'
+import { listMetaPromptVersions } from '@/lib/optimizer'
+import { prepareOptimization, runOptimization } from '@/lib/pipeline'
+import { listPromptTypes } from '@/lib/prompt-types'
+import { getProvider } from '@/lib/providers'
+import { createRecordedProvider, loadRecordings, saveRecordings, type Recording } from './recorded-provider'
+
+const EVALS_DIR = join(process.cwd(), 'evals')
+
+interface GoldenCase {
+  id: string
+  prompt: string
+  advancedFields?: Record<string, string>
+  target?: string
+}
+
+interface CaseResult {
+  caseId: string
+  passed: boolean
+  failedChecks: string[]
+  fixedChecks: string[]
+  // Absent when the recording has no usage
+  totalTokens?: number
+  error?: string
+}
+
+interface VersionResult {
+  type: string
+  version: string
+  cases: number
+  passedCases: number
+  // Share of individual checks passed across all cases that ran
+  checkPassRate: number
+  errors: number
+  // Absent unless every case that ran has a token count
+  totalTokens?: number
+  results: CaseResult[]
+}
+
+interface Report {
+  createdAt: string
+  versions: VersionResult[]
+}
+
+async function loadGoldenSet(type: string): Promise<GoldenCase[] | null> {
+  try {
+    const content = await readFile(join(EVALS_DIR, 'golden', `${type}.json`), 'utf-8')
+    return (JSON.parse(content) as { cases: GoldenCase[] }).cases
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+function sumTokens(results: CaseResult[]): number | undefined {
+  const ran = results.filter((result) => !result.error)
+  if (ran.length === 0 || ran.some((result) => result.totalTokens === undefined)) return undefined
+  return ran.reduce((sum, result) => sum + result.totalTokens!, 0)
+}
+
+function formatTokens(result: VersionResult, previous: VersionResult | undefined): string {
+  if (result.totalTokens === undefined) return ''
+  const delta = previous?.totalTokens !== undefined
+    ? ` (${result.totalTokens >= previous.totalTokens ? '+' : ''}${result.totalTokens - previous.totalTokens} vs baseline)`
+    : ''
+  return `, ${result.totalTokens} tokens${delta}`
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`
+}
+
+async function evaluateType(type: string, onlyVersion: string | undefined, record: boolean): Promise<VersionResult[]> {
+  const cases = await loadGoldenSet(type)
+  if (!cases) {
+    console.warn(`No golden set for ${type}, skipping`)
+    return []
+  }
+
+  const versions = (await listMetaPromptVersions(type)).filter((version) => !onlyVersion || version.version === onlyVersion)
+  const recordingsPath = join(EVALS_DIR, 'recordings', `${type}.json`)
+  const recordings = await loadRecordings(recordingsPath)
+
+  let current: Pick<Recording, 'caseId' | 'metaPromptVersion'> = { caseId: '', metaPromptVersion: '' }
+  const provider = createRecordedProvider({
+    recordings,
+    label: () => current,
+    upstream: record ? getProvider() : undefined,
+  })
+
+  const results: VersionResult[] = []
+  for (const version of versions) {
+    const caseResults: CaseResult[] = []
+    let checksRun = 0
+    let checksPassed = 0
+
+    for (const goldenCase of cases) {
+      current = { caseId: goldenCase.id, metaPromptVersion: version.version }
+      try {
+        const context = await prepareOptimization(
+          {
+            prompt: goldenCase.prompt,
+            type,
+            advancedFields: goldenCase.advancedFields,
+            target: goldenCase.target,
+            metaPromptVersion: version.version,
+          },
+          { provider, logRuns: false }
+        )
+        const result = await runOptimization(context)
+        // Scored by the pipeline on the whole output, before any sections
+        // such as the negative prompt were split off
+        const { checks, warnings } = result.compliance
+        const failedChecks = warnings.map((warning) => warning.name)
+
+        checksRun += checks
+        checksPassed += checks - failedChecks.length
+        caseResults.push({
+          caseId: goldenCase.id,
+          passed: failedChecks.length === 0,
+          failedChecks,
+          fixedChecks: result.compliance.fixed,
+          totalTokens: result.usage?.total_tokens,
+        })
+      } catch (error) {
+        caseResults.push({
+          caseId: goldenCase.id,
+          passed: false,
+          failedChecks: [],
+          fixedChecks: [],
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    results.push({
+      type,
+      version: version.version,
+      cases: caseResults.length,
+      passedCases: caseResults.filter((result) => result.passed).length,
+      checkPassRate: checksRun > 0 ? checksPassed / checksRun : 0,
+      errors: caseResults.filter((result) => result.error).length,
+      totalTokens: sumTokens(caseResults),
+      results: caseResults,
+    })
+  }
+
+  if (record) {
+    await saveRecordings(recordingsPath, recordings)
+  }
+  return results
+}
+
+function printReport(report: Report, baseline: Report | null) {
+  for (const result of report.versions) {
+    const previous = baseline?.versions.find((entry) => entry.type === result.type && entry.version === result.version)
+    const delta = previous ? ` (${result.checkPassRate >= previous.checkPassRate ? '+' : ''}${formatPercent(result.checkPassRate - previous.checkPassRate)} vs baseline)` : ''
+    console.log(
+      `${result.type} v${result.version}: ${result.passedCases}/${result.cases} cases passed, ` +
+      `${formatPercent(result.checkPassRate)} of checks${delta}${formatTokens(result, previous)}` +
+      (result.errors > 0 ? `, ${result.errors} errors` : '')
+    )
+
+    for (const caseResult of result.results) {
+      if (caseResult.error) {
+        console.log(`  ✗ ${caseResult.caseId}: ${caseResult.error}`)
+      } else if (!caseResult.passed) {
+        console.log(`  ✗ ${caseResult.caseId}: failed ${caseResult.failedChecks.join(', ')}`)
+      } else if (caseResult.fixedChecks.length > 0) {
+        console.log(`  ~ ${caseResult.caseId}: cleaned up ${caseResult.fixedChecks.join(', ')}`)
+      }
+    }
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      type: { type: 'string' },
+      version: { type: 'string' },
+      record: { type: 'boolean', default: false },
+      baseline: { type: 'string' },
+      out: { type: 'string', default: join(EVALS_DIR, 'reports', 'latest.json') },
+    },
+  })
+
+  const types = values.type ? [values.type] : (await listPromptTypes()).map((definition) => definition.id)
+  const report: Report = { createdAt: new Date().toISOString(), versions: [] }
+  for (const type of types) {
+    report.versions.push(...(await evaluateType(type, values.version, values.record ?? false)))
+  }
+
+  const baseline: Report | null = values.baseline ? JSON.parse(await readFile(values.baseline, 'utf-8')) : null
+  printReport(report, baseline)
+
+  await mkdir(dirname(values.out!), { recursive: true })
+  await writeFile(values.out!, `${JSON.stringify(report, null, 2)}\n`, 'utf-8')
+  console.log(`\nReport written to ${values.out}`)
+
+  if (report.versions.some((result) => result.errors > 0)) {
+    process.exitCode = 1
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exitCode = 1
+})
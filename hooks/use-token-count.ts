@@ -0,0 +1,28 @@
+import * as React from 'react'
+import { countTokens, encodingForModel } from '@/lib/tokens'
+
+const COUNT_DELAY_MS = 150
+
+// Live token count of `text` for `model`'s tokenizer, or null until the
+// tokenizer has loaded. Counting waits for a pause in typing.
+export function useTokenCount(text: string, model?: string) {
+  const [count, setCount] = React.useState<number | null>(null)
+
+  React.useEffect(() => {
+    let cancelled = false
+    const timer = setTimeout(() => {
+      countTokens(text, encodingForModel(model))
+        .then((tokens) => {
+          if (!cancelled) setCount(tokens)
+        })
+        .catch((error) => console.error('Failed to count tokens:', error))
+    }, COUNT_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [text, model])
+
+  return count
+}
@@ -0,0 +1,100 @@
+import { z } from 'zod'
+import { RequestError } from './errors'
+import { parseJsonReply } from './json-reply'
+import { buildSystemPrompt, type MetaPrompt } from './meta-prompt'
+import type { ChatMessage } from './providers'
+
+export const MAX_SCORE = 10
+
+// What a prompt is scored on, each from 0 to MAX_SCORE with higher better
+export const ANALYSIS_CRITERIA = {
+  specificity: 'Names concrete subjects, details and values instead of vague words',
+  context: 'Gives the background, audience and purpose the result depends on',
+  constraints: 'States the limits and must-haves the result has to respect',
+  format: 'Says what shape, length or structure the result should take',
+  ambiguity: 'Reads one way only, leaving nothing for the model to guess; a higher score means less ambiguity',
+} as const
+
+export type AnalysisCriterion = keyof typeof ANALYSIS_CRITERIA
+
+export interface CriterionScore {
+  name: AnalysisCriterion
+  score: number
+  comment: string
+}
+
+export interface PromptAnalysis {
+  // Mean of the criterion scores, to one decimal
+  score: number
+  criteria: CriterionScore[]
+  // The meta-prompt's requirements, checked against the prompt as written
+  requirements: { name: string; description: string; passed: boolean }[]
+  suggestions: string[]
+}
+
+const analysisReplySchema = z.object({
+  criteria: z.array(
+    z.object({
+      name: z.string(),
+      score: z.number().min(0).max(MAX_SCORE),
+      comment: z.string().default(''),
+    })
+  ),
+  suggestions: z.array(z.string()).default([]),
+})
+
+// The meta-prompt is quoted as the standard to judge by, so the model reviews
+// the prompt instead of rewriting it
+export function buildAnalyzeMessages(metaPrompt: MetaPrompt, prompt: string): ChatMessage[] {
+  const criteria = Object.entries(ANALYSIS_CRITERIA)
+    .map(([name, description]) => `- ${name}: ${description}`)
+    .join('\n')
+  const names = Object.keys(ANALYSIS_CRITERIA).join(', ')
+
+  const system = `You review ${metaPrompt.type} generation prompts. You never rewrite them: you score them and say what would make them better.
+
+An optimizer turns prompts like this into better ones by following the instructions between the lines below. Judge the prompt by the standard those instructions set, but do not follow them yourself.
+
+---
+${buildSystemPrompt(metaPrompt)}
+---
+
+Score the prompt from 0 to ${MAX_SCORE} on each of these criteria, with a one-sentence comment on each:
+${criteria}
+
+Then give up to 5 concrete suggestions, most important first, each a single sentence naming exactly what to add or change. Give none if the prompt needs no changes.
+
+Respond with JSON only, in this shape:
+{"criteria": [{"name": "<one of ${names}>", "score": 0, "comment": "..."}], "suggestions": ["..."]}`
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: `Prompt to review:\n\n${prompt}` },
+  ]
+}
+
+// Combines the model's scores with the meta-prompt's own requirement checks.
+// Every criterion has to be scored, or the reply is rejected.
+export function parseAnalysis(content: string, metaPrompt: MetaPrompt, prompt: string): PromptAnalysis {
+  const reply = parseJsonReply(content, analysisReplySchema, 'Failed to analyze prompt')
+
+  const criteria = (Object.keys(ANALYSIS_CRITERIA) as AnalysisCriterion[]).map((name): CriterionScore => {
+    const scored = reply.criteria.find((criterion) => criterion.name.toLowerCase() === name)
+    if (!scored) {
+      throw new RequestError('Failed to analyze prompt', 500, `The reply did not score ${name}`)
+    }
+    return { name, score: Math.round(scored.score), comment: scored.comment }
+  })
+
+  const total = criteria.reduce((sum, criterion) => sum + criterion.score, 0)
+  return {
+    score: Math.round((total / criteria.length) * 10) / 10,
+    criteria,
+    requirements: metaPrompt.requirements.map((requirement) => ({
+      name: requirement.name,
+      description: requirement.description,
+      passed: new RegExp(requirement.pattern, 'i').test(prompt),
+    })),
+    suggestions: reply.suggestions.map((suggestion) => suggestion.trim()).filter(Boolean).slice(0, 5),
+  }
+}
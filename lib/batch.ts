@@ -0,0 +1,225 @@
+import { z } from 'zod'
+
+// Reading batch uploads and writing their results. Nothing here touches the
+// file system, so the browser can use it too.
+
+export const MAX_BATCH_ROWS = 500
+// Optimizations in flight at once, to stay under provider rate limits
+export const BATCH_CONCURRENCY = 4
+
+export type BatchFormat = 'csv' | 'jsonl'
+
+export interface BatchRow {
+  // 1-based line in the uploaded file, for error messages
+  line: number
+  prompt: string
+  type: string
+  advancedFields?: Record<string, string>
+  target?: string
+}
+
+export interface ParsedBatch {
+  rows: BatchRow[]
+  // Rows that could not be read, reported without stopping the rest
+  errors: { line: number; message: string }[]
+}
+
+export type BatchRowStatus = 'pending' | 'running' | 'done' | 'error'
+
+export interface BatchRowResult extends BatchRow {
+  status: BatchRowStatus
+  optimizedPrompt?: string
+  negativePrompt?: string
+  // Messages of the checks the output still fails
+  warnings?: string[]
+  error?: string
+}
+
+const jsonlRowSchema = z.object({
+  prompt: z.string().trim().min(1),
+  type: z.string().min(1).optional(),
+  advancedFields: z.record(z.string()).optional(),
+  target: z.string().min(1).optional(),
+})
+
+// Columns with a meaning of their own; every other CSV column is an advanced
+// field named by its header
+const CSV_COLUMNS = ['prompt', 'type', 'target']
+
+export function detectBatchFormat(fileName: string): BatchFormat | undefined {
+  const name = fileName.toLowerCase()
+  if (name.endsWith('.csv')) return 'csv'
+  if (name.endsWith('.jsonl') || name.endsWith('.ndjson')) return 'jsonl'
+  return undefined
+}
+
+// RFC 4180 records: quoted fields may hold commas, doubled quotes and line
+// breaks. Returns each record with the line it starts on.
+function parseCsvRecords(text: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = []
+  let fields: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') line++
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      fields.push(field)
+      records.push({ line: recordLine, fields })
+      fields = []
+      field = ''
+      line++
+      recordLine = line
+    } else {
+      field += char
+    }
+  }
+  if (field || fields.length > 0) {
+    fields.push(field)
+    records.push({ line: recordLine, fields })
+  }
+
+  return records.filter((record) => record.fields.some((value) => value.trim()))
+}
+
+function parseCsv(text: string, defaultType: string): ParsedBatch {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''))
+  const columns = header?.fields.map((column) => column.trim()) ?? []
+  const lower = columns.map((column) => column.toLowerCase())
+  if (!lower.includes('prompt')) {
+    throw new Error('The CSV needs a header row with a "prompt" column')
+  }
+
+  const batch: ParsedBatch = { rows: [], errors: [] }
+  for (const record of records) {
+    const values = Object.fromEntries(lower.map((column, i) => [column, record.fields[i]?.trim() ?? '']))
+    if (!values.prompt) {
+      batch.errors.push({ line: record.line, message: 'The prompt is empty' })
+      continue
+    }
+
+    const advancedFields: Record<string, string> = {}
+    columns.forEach((column, i) => {
+      const value = record.fields[i]?.trim()
+      if (column && !CSV_COLUMNS.includes(lower[i]) && value) advancedFields[column] = value
+    })
+
+    batch.rows.push({
+      line: record.line,
+      prompt: values.prompt,
+      type: values.type || defaultType,
+      advancedFields: Object.keys(advancedFields).length > 0 ? advancedFields : undefined,
+      target: values.target || undefined,
+    })
+  }
+  return batch
+}
+
+function parseJsonl(text: string, defaultType: string): ParsedBatch {
+  const batch: ParsedBatch = { rows: [], errors: [] }
+  text.split(/\r?\n/).forEach((content, index) => {
+    if (!content.trim()) return
+    const line = index + 1
+
+    let data: unknown
+    try {
+      data = JSON.parse(content)
+    } catch {
+      batch.errors.push({ line, message: 'Not valid JSON' })
+      return
+    }
+
+    const parsed = jsonlRowSchema.safeParse(data)
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      batch.errors.push({ line, message: `${issue.path.join('.') || 'row'}: ${issue.message}` })
+      return
+    }
+    batch.rows.push({ line, ...parsed.data, type: parsed.data.type ?? defaultType })
+  })
+  return batch
+}
+
+// Rows without a type of their own use `defaultType`. Throws when the file as
+// a whole can't be used; problems with single rows come back in `errors`.
+export function parseBatchFile(text: string, format: BatchFormat, defaultType: string): ParsedBatch {
+  const batch = format === 'csv' ? parseCsv(text, defaultType) : parseJsonl(text, defaultType)
+  if (batch.rows.length === 0 && batch.errors.length === 0) {
+    throw new Error('The file has no rows')
+  }
+  if (batch.rows.length > MAX_BATCH_ROWS) {
+    throw new Error(`A batch can have at most ${MAX_BATCH_ROWS} rows`)
+  }
+  return batch
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// One row per input, in upload order. CSV flattens advanced fields and
+// warnings into single columns; JSONL keeps them structured.
+export function formatBatchResults(results: BatchRowResult[], format: BatchFormat): string {
+  if (format === 'jsonl') {
+    return results
+      .map(({ line, type, target, prompt, advancedFields, status, optimizedPrompt, negativePrompt, warnings, error }) =>
+        JSON.stringify({ line, type, target, prompt, advancedFields, status, optimizedPrompt, negativePrompt, warnings, error })
+      )
+      .join('\n') + '\n'
+  }
+
+  const header = ['line', 'type', 'target', 'prompt', 'advancedFields', 'status', 'optimizedPrompt', 'negativePrompt', 'warnings', 'error']
+  const lines = results.map((result) =>
+    [
+      String(result.line),
+      result.type,
+      result.target ?? '',
+      result.prompt,
+      result.advancedFields ? JSON.stringify(result.advancedFields) : '',
+      result.status,
+      result.optimizedPrompt ?? '',
+      result.negativePrompt ?? '',
+      (result.warnings ?? []).join('; '),
+      result.error ?? '',
+    ]
+      .map(csvField)
+      .join(',')
+  )
+  return [header.join(','), ...lines].join('\r\n') + '\r\n'
+}
+
+// Runs `task` over every item with at most `limit` in flight, in order of
+// the items. Stops starting new items once `signal` aborts.
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++
+      await task(items[index], index)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+}
@@ -0,0 +1,287 @@
+import { randomUUID } from 'crypto'
+import { z } from 'zod'
+import { BATCH_CONCURRENCY, MAX_BATCH_ROWS, runWithConcurrency, type BatchRowResult } from './batch'
+import { RequestError } from './errors'
+import type { OutputSection } from './meta-prompt'
+import { prepareOptimization, runOptimization, type OptimizeRequest } from './pipeline'
+import { listPromptTypes } from './prompt-types'
+import type { Usage } from './providers'
+import { appendRecord, readRecords } from './store'
+
+// Tries per item before it is reported as failed. Request errors, such as an
+// unknown type, fail at once since retrying can't fix them; timeouts and rate
+// limits passed on from the provider are retried.
+export const MAX_ITEM_ATTEMPTS = 3
+const RETRY_DELAY_MS = 1000
+const RETRYABLE_STATUSES = [408, 429]
+
+const batchItemSchema = z
+  .object({
+    // The caller's own reference, echoed back in the results
+    id: z.string().max(200).optional(),
+    prompt: z.string().trim().min(1),
+    type: z.string().min(1),
+    advancedFields: z.record(z.string()).optional(),
+    target: z.string().min(1).optional(),
+  })
+  .strict()
+
+export const batchRequestSchema = z
+  .object({
+    items: z.array(batchItemSchema).min(1).max(MAX_BATCH_ROWS),
+    // Applied to every item, as on /api/optimize
+    provider: z.string().optional(),
+    options: z.unknown().optional(),
+    metaPromptVersion: z.string().optional(),
+    reask: z.boolean().optional(),
+    mode: z.string().optional(),
+    budget: z.unknown().optional(),
+  })
+  .strict()
+
+export type BatchRequest = z.infer<typeof batchRequestSchema>
+export type BatchItem = z.infer<typeof batchItemSchema>
+
+// Kept in the `batches` collection; item outcomes go to `batch-<id>`
+interface BatchRecord extends Omit<BatchRequest, 'items'> {
+  id: string
+  createdAt: string
+  items: BatchItem[]
+}
+
+interface ItemOutcome {
+  index: number
+  status: 'done' | 'error'
+  attempts: number
+  finishedAt: string
+  runId?: string
+  optimizedPrompt?: string
+  negativePrompt?: string
+  sections?: OutputSection[]
+  warnings?: string[]
+  usage?: Usage
+  error?: string
+}
+
+export type BatchItemStatus = 'pending' | 'done' | 'error'
+
+export interface BatchItemResult extends Omit<Partial<ItemOutcome>, 'status'> {
+  index: number
+  id?: string
+  type: string
+  status: BatchItemStatus
+}
+
+// `interrupted` means items are left but nothing is working on them, such as
+// after a server restart; resuming picks them up again
+export type BatchStatus = 'running' | 'completed' | 'completed_with_errors' | 'interrupted'
+
+export interface BatchJob {
+  id: string
+  createdAt: string
+  status: BatchStatus
+  total: number
+  counts: Record<BatchItemStatus, number>
+  items: BatchItemResult[]
+}
+
+// Jobs with a worker in this process. Workers are detached promises that
+// outlive the request that started them, so batches need a long-running
+// server with a writable data directory; see the README.
+const runningBatches = new Map<string, Promise<void>>()
+
+function outcomesCollection(id: string): string {
+  return `batch-${id}`
+}
+
+export function parseBatchRequest(value: unknown): BatchRequest {
+  const parsed = batchRequestSchema.safeParse(value)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new RequestError('Invalid batch', 400, `${issue.path.join('.') || 'batch'}: ${issue.message}`)
+  }
+  return parsed.data
+}
+
+// The batch-wide settings, as passed with each item to the pipeline
+function batchSettings(batch: Omit<BatchRequest, 'items'>): Omit<OptimizeRequest, 'prompt' | 'type'> {
+  return {
+    provider: batch.provider,
+    options: batch.options,
+    metaPromptVersion: batch.metaPromptVersion,
+    reask: batch.reask,
+    mode: batch.mode,
+    budget: batch.budget,
+  }
+}
+
+// Resolves the settings once for each type in the batch, so a bad provider,
+// options, mode, budget or meta-prompt version rejects the request instead of
+// failing every item. Items of an unknown type still fail on their own.
+async function validateSettings(request: BatchRequest): Promise<void> {
+  const known = new Set((await listPromptTypes()).map((type) => type.id))
+  const types = new Set(request.items.map((item) => item.type).filter((type) => known.has(type)))
+  for (const type of types) {
+    await prepareOptimization({ ...batchSettings(request), prompt: '', type }, { logRuns: false })
+  }
+}
+
+async function findBatch(id: string): Promise<BatchRecord> {
+  const batch = (await readRecords<BatchRecord>('batches')).find((record) => record.id === id)
+  if (!batch) {
+    throw new RequestError('Unknown batch', 404)
+  }
+  return batch
+}
+
+// The latest outcome of each item; a retried item's new outcome replaces the
+// one before it
+async function readOutcomes(id: string): Promise<Map<number, ItemOutcome>> {
+  const outcomes = new Map<number, ItemOutcome>()
+  for (const outcome of await readRecords<ItemOutcome>(outcomesCollection(id))) {
+    outcomes.set(outcome.index, outcome)
+  }
+  return outcomes
+}
+
+function isPermanent(error: unknown): boolean {
+  return error instanceof RequestError && error.status < 500 && !RETRYABLE_STATUSES.includes(error.status)
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+async function optimizeItem(batch: BatchRecord, item: BatchItem, index: number): Promise<ItemOutcome> {
+  let attempts = 0
+  while (true) {
+    attempts++
+    try {
+      const context = await prepareOptimization({
+        prompt: item.prompt,
+        type: item.type,
+        advancedFields: item.advancedFields,
+        target: item.target,
+        ...batchSettings(batch),
+      })
+      const result = await runOptimization(context)
+      return {
+        index,
+        status: 'done',
+        attempts,
+        finishedAt: new Date().toISOString(),
+        runId: result.runId,
+        optimizedPrompt: result.optimizedPrompt,
+        negativePrompt: result.negativePrompt,
+        sections: result.sections,
+        warnings: result.compliance.warnings.map((warning) => warning.message),
+        usage: result.usage,
+      }
+    } catch (error) {
+      if (isPermanent(error) || attempts >= MAX_ITEM_ATTEMPTS) {
+        return {
+          index,
+          status: 'error',
+          attempts,
+          finishedAt: new Date().toISOString(),
+          error: error instanceof RequestError && error.details
+            ? `${error.message}: ${error.details}`
+            : error instanceof Error ? error.message : 'Failed to optimize prompt',
+        }
+      }
+      await delay(RETRY_DELAY_MS * attempts)
+    }
+  }
+}
+
+// Works through every item without a successful outcome, a few at a time,
+// recording each outcome as it finishes so a restart loses nothing
+async function runBatch(batch: BatchRecord): Promise<void> {
+  const outcomes = await readOutcomes(batch.id)
+  const queue = batch.items
+    .map((item, index) => ({ item, index }))
+    .filter(({ index }) => outcomes.get(index)?.status !== 'done')
+
+  await runWithConcurrency(queue, BATCH_CONCURRENCY, async ({ item, index }) => {
+    await appendRecord(outcomesCollection(batch.id), await optimizeItem(batch, item, index))
+  })
+}
+
+// Starts a worker for the batch unless one is already running here
+function startBatch(batch: BatchRecord): void {
+  if (runningBatches.has(batch.id)) return
+
+  const worker = runBatch(batch)
+    .catch((error) => console.error(`Batch ${batch.id} stopped:`, error))
+    .finally(() => runningBatches.delete(batch.id))
+  runningBatches.set(batch.id, worker)
+}
+
+export async function createBatch(request: BatchRequest): Promise<BatchJob> {
+  await validateSettings(request)
+  const batch: BatchRecord = {
+    ...request,
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+  }
+  await appendRecord('batches', batch)
+  startBatch(batch)
+  return getBatch(batch.id)
+}
+
+// Picks up an interrupted batch and retries its failed items
+export async function resumeBatch(id: string): Promise<BatchJob> {
+  startBatch(await findBatch(id))
+  return getBatch(id)
+}
+
+export async function getBatch(id: string): Promise<BatchJob> {
+  const batch = await findBatch(id)
+  const outcomes = await readOutcomes(id)
+
+  const items = batch.items.map((item, index): BatchItemResult => {
+    const outcome = outcomes.get(index)
+    return {
+      ...outcome,
+      index,
+      id: item.id,
+      type: item.type,
+      status: outcome?.status ?? 'pending',
+    }
+  })
+
+  const counts: Record<BatchItemStatus, number> = { pending: 0, done: 0, error: 0 }
+  items.forEach((item) => counts[item.status]++)
+
+  let status: BatchStatus
+  if (runningBatches.has(id)) {
+    status = 'running'
+  } else if (counts.pending > 0) {
+    status = 'interrupted'
+  } else {
+    status = counts.error > 0 ? 'completed_with_errors' : 'completed'
+  }
+
+  return { id, createdAt: batch.createdAt, status, total: items.length, counts, items }
+}
+
+// The batch's items and outcomes in the shape of the UI's batch downloads
+export async function getBatchRows(id: string): Promise<BatchRowResult[]> {
+  const batch = await findBatch(id)
+  const job = await getBatch(id)
+  return job.items.map((result) => {
+    const item = batch.items[result.index]
+    return {
+      line: result.index + 1,
+      prompt: item.prompt,
+      type: item.type,
+      advancedFields: item.advancedFields,
+      target: item.target,
+      status: result.status,
+      optimizedPrompt: result.optimizedPrompt,
+      negativePrompt: result.negativePrompt,
+      warnings: result.warnings,
+      error: result.error,
+    }
+  })
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod'
+import { RequestError } from './errors'
+import { countTokens, encodingForModel } from './tokens'
+
+// Extra completions the pipeline may spend shortening an output that
+// overshoots its budget
+export const MAX_BUDGET_RETRIES = 2
+
+export const lengthBudgetSchema = z
+  .object({
+    limit: z.number().int().positive().max(100_000),
+    unit: z.enum(['tokens', 'characters']),
+  })
+  .strict()
+
+export type LengthBudget = z.infer<typeof lengthBudgetSchema>
+
+export interface BudgetReport extends LengthBudget {
+  // Length of the returned prompt, in the budget's unit
+  length: number
+  met: boolean
+  retries: number
+}
+
+export function parseLengthBudget(value: unknown): LengthBudget | undefined {
+  if (value === undefined || value === null) return undefined
+
+  const parsed = lengthBudgetSchema.safeParse(value)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new RequestError('Invalid budget', 400, `${issue.path.join('.') || 'budget'}: ${issue.message}`)
+  }
+  return parsed.data
+}
+
+// Tokens are counted with the tiktoken encoding of the model that writes the
+// prompt. Other tokenizers, such as CLIP's, come out close but not identical.
+export function measureLength(text: string, unit: LengthBudget['unit'], model?: string): Promise<number> {
+  return unit === 'characters' ? Promise.resolve(text.length) : countTokens(text, encodingForModel(model))
+}
+
+export function formatBudget(budget: LengthBudget): string {
+  return `${budget.limit} ${budget.unit}`
+}
@@ -0,0 +1,179 @@
+import { splitSections, type MetaPrompt, type OutputSectionDefinition } from './meta-prompt'
+
+export interface CheckResult {
+  name: string
+  passed: boolean
+  message: string
+}
+
+// Every meta-prompt says to output ONLY the optimized prompt, so these apply
+// to all types. Type-specific checks come from each meta-prompt's
+// `sections` and `requirements`.
+//
+// A preamble is a first line that introduces the answer: one that opens like
+// an introduction and either ends with a colon or names the prompt, as in
+// "Here's your optimized prompt". "Here is a majestic lion..." and "Great Wall
+// of China..." are prompts. Interjections such as "Sure!" only count when an
+// introduction follows.
+const PREAMBLE_PATTERN = /^\s*((sure|certainly|absolutely|of course|okay|great)\b[!,.]?\s*)?(here('s| is| are)\b|below is\b|(\*\*|#+\s*)?optimized prompt(\*\*)?\s*:)/i
+const PROMPT_INTRO_PATTERN = /^\s*((sure|certainly|absolutely|of course|okay|great)\b[!,.]?\s*)?(here('s| is| are)|below is) (the|your|an?) ((optimized|improved|revised|refined|rewritten|enhanced) )?(version of (the|your) )?prompts?\b/i
+const PROMPT_LABEL_PATTERN = /^\s*(\*\*|#+\s*)?optimized prompt(\*\*)?\s*:(\*\*)?[ \t]*/i
+// A fence opening on the first line and closing on the last. It only wraps
+// the output when there is no other fence in between; otherwise the output is
+// a code prompt that starts and ends with snippets of its own.
+const WRAPPING_FENCE_PATTERN = /^\s*```[\w-]*[ \t]*\r?\n([\s\S]*)\r?\n[ \t]*```\s*$/
+const FENCE_LINE_PATTERN = /^[ \t]*```/m
+const TRAILING_COMMENTARY_PATTERN = /(let me know|hope this helps|feel free to|would you like|i('ve| have) (added|included|made|expanded)|this (optimized |revised )?prompt (should|will|now))/i
+
+function hasPreamble(text: string): boolean {
+  if (PROMPT_LABEL_PATTERN.test(text)) return true
+  const firstLine = text.trim().split('\n')[0]
+  return PREAMBLE_PATTERN.test(firstLine) && (firstLine.trim().endsWith(':') || PROMPT_INTRO_PATTERN.test(firstLine))
+}
+
+// The output inside a fence that wraps all of it, if there is one
+function unwrapFence(text: string): string | undefined {
+  const body = text.match(WRAPPING_FENCE_PATTERN)?.[1]
+  return body !== undefined && !FENCE_LINE_PATTERN.test(body) ? body : undefined
+}
+
+function lastParagraph(text: string): string {
+  const paragraphs = text.trim().split(/\n\s*\n/)
+  return paragraphs[paragraphs.length - 1] ?? ''
+}
+
+export interface CleanedOutput {
+  output: string
+  // Names of the checks the cleanup fixed
+  fixed: string[]
+}
+
+// Strips the violations that can be removed without touching the prompt
+// itself: a leading preamble line or label, a code fence around the whole
+// output, and a closing paragraph of commentary
+export function cleanOutput(output: string): CleanedOutput {
+  const fixed: string[] = []
+  let text = output.trim()
+
+  if (PROMPT_LABEL_PATTERN.test(text)) {
+    text = text.replace(PROMPT_LABEL_PATTERN, '').trim()
+    fixed.push('no-preamble')
+  } else if (hasPreamble(text)) {
+    const rest = text.split('\n').slice(1)
+    // Only drop a line that introduces what follows, never the whole answer
+    if (rest.some((line) => line.trim())) {
+      text = rest.join('\n').trim()
+      fixed.push('no-preamble')
+    }
+  }
+
+  const fenced = unwrapFence(text)
+  if (fenced !== undefined) {
+    text = fenced.trim()
+    fixed.push('no-code-fence')
+  }
+
+  const paragraphs = text.split(/\n\s*\n/)
+  if (paragraphs.length > 1 && TRAILING_COMMENTARY_PATTERN.test(paragraphs[paragraphs.length - 1])) {
+    text = paragraphs.slice(0, -1).join('\n\n').trim()
+    fixed.push('no-trailing-commentary')
+  }
+
+  return { output: text, fixed }
+}
+
+// Extra completions the pipeline may spend shortening an output that
+// overshoots its platform's field limits
+export const MAX_LIMIT_RETRIES = 2
+
+export interface LengthLimit {
+  // Name of the check the limit is reported under
+  name: string
+  label: string
+  length: number
+  maxLength: number
+}
+
+// Platform field limits, measured on the parts the user pastes separately. A
+// section the output leaves out has nothing to measure.
+export function measureLimits(metaPrompt: MetaPrompt, output: string): LengthLimit[] {
+  const limited = metaPrompt.sections.filter(
+    (section): section is OutputSectionDefinition & { maxLength: number } => section.maxLength !== undefined
+  )
+  if (metaPrompt.maxLength === undefined && limited.length === 0) return []
+
+  const parts = splitSections(output, metaPrompt.sections)
+  const limits: LengthLimit[] = []
+  if (metaPrompt.maxLength !== undefined) {
+    limits.push({ name: 'prompt-length', label: 'The prompt', length: parts.prompt.length, maxLength: metaPrompt.maxLength })
+  }
+  for (const section of limited) {
+    const part = parts.sections.find((candidate) => candidate.name === section.name)
+    if (part) {
+      limits.push({ name: `section-${section.name}-length`, label: section.label, length: part.content.length, maxLength: section.maxLength })
+    }
+  }
+  return limits
+}
+
+export function checkOutput(metaPrompt: MetaPrompt, output: string): CheckResult[] {
+  const results: CheckResult[] = [
+    {
+      name: 'not-empty',
+      passed: output.trim().length > 0,
+      message: 'Output is not empty',
+    },
+    {
+      name: 'no-preamble',
+      passed: !hasPreamble(output),
+      message: 'Starts with the prompt itself, not a preamble',
+    },
+    {
+      name: 'no-code-fence',
+      passed: unwrapFence(output) === undefined,
+      message: 'Is not wrapped in a markdown code fence',
+    },
+    {
+      name: 'no-trailing-commentary',
+      passed: !TRAILING_COMMENTARY_PATTERN.test(lastParagraph(output)),
+      message: 'Ends without commentary about the prompt',
+    },
+  ]
+
+  for (const section of metaPrompt.sections) {
+    results.push({
+      name: `section-${section.name}`,
+      passed: splitSections(output, [section]).sections.length > 0,
+      message: `Includes a line starting with "${section.marker}"`,
+    })
+  }
+
+  for (const limit of measureLimits(metaPrompt, output)) {
+    results.push({
+      name: limit.name,
+      passed: limit.length <= limit.maxLength,
+      message: `${limit.label} is at most ${limit.maxLength} characters`,
+    })
+  }
+
+  for (const requirement of metaPrompt.requirements) {
+    results.push({
+      name: requirement.name,
+      passed: new RegExp(requirement.pattern, 'i').test(output),
+      message: requirement.description,
+    })
+  }
+
+  return results
+}
+
+// Every template placeholder in the input has to appear in the output exactly
+// as written. Checks are named after the placeholder as written, since
+// `{name}` and `{{name}}` are different placeholders with the same name.
+export function checkPlaceholders(placeholders: string[], output: string): CheckResult[] {
+  return placeholders.map((placeholder) => ({
+    name: `placeholder-${placeholder}`,
+    passed: output.includes(placeholder),
+    message: `Keeps the placeholder ${placeholder} exactly as written`,
+  }))
+}
@@ -0,0 +1,125 @@
+import { z } from 'zod'
+import { RequestError } from './errors'
+import { parseJsonReply } from './json-reply'
+import type { MetaPrompt } from './meta-prompt'
+import type { PromptTypeDefinition } from './prompt-types'
+import type { ChatMessage } from './providers'
+
+export const MIN_QUESTIONS = 2
+export const MAX_QUESTIONS = 5
+
+export interface ClarifyingQuestion {
+  id: string
+  question: string
+  // The advanced field the answer fills in, if the question is about one
+  field?: string
+  // A sample answer to show as the input's placeholder
+  example?: string
+}
+
+// The model's reply, before it is checked against the type's fields
+const questionsReplySchema = z.object({
+  questions: z.array(
+    z.object({
+      question: z.string().trim().min(1),
+      field: z.string().nullish(),
+      example: z.string().nullish(),
+    })
+  ),
+})
+
+export const clarificationsSchema = z
+  .array(
+    z
+      .object({
+        question: z.string().trim().min(1).max(500),
+        field: z.string().optional(),
+        answer: z.string().trim().max(2000),
+      })
+      .strict()
+  )
+  .max(MAX_QUESTIONS * 2)
+
+export type Clarification = z.infer<typeof clarificationsSchema>[number]
+
+export function parseClarifications(value: unknown): Clarification[] | undefined {
+  if (value === undefined || value === null) return undefined
+
+  const parsed = clarificationsSchema.safeParse(value)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new RequestError('Invalid clarifications', 400, `${issue.path.join('.') || 'clarifications'}: ${issue.message}`)
+  }
+  return parsed.data
+}
+
+// Asks for questions about what the prompt leaves open, steered toward the
+// type's advanced fields and the meta-prompt's requirements
+export function buildClarifyMessages(
+  metaPrompt: MetaPrompt,
+  definition: PromptTypeDefinition,
+  prompt: string,
+  advancedFields?: Record<string, string>
+): ChatMessage[] {
+  const answered = new Set(Object.keys(advancedFields ?? {}))
+  const fields = definition.advancedFields
+    .filter((field) => !answered.has(field.label))
+    .map((field) => `- ${field.label}${field.placeholder ? ` (${field.placeholder})` : ''}`)
+  // Requirements name what a good prompt covers; constraints are mostly about
+  // how the output is written, which the user has no say in
+  const rules = metaPrompt.requirements.map((requirement) => `- ${requirement.description}`)
+
+  let system = `You help users write ${definition.label.toLowerCase()} prompts. Before a prompt is optimized, you find the details it leaves open that would change the result, and ask the user about them instead of letting the optimizer invent them.
+
+Ask between ${MIN_QUESTIONS} and ${MAX_QUESTIONS} short, specific questions, most important first. Skip anything the prompt or the context already answers, and anything that would barely change the result.`
+
+  if (fields.length > 0) {
+    system += `\n\nPrefer questions about these details, naming the detail in "field":\n${fields.join('\n')}`
+  }
+  if (rules.length > 0) {
+    system += `\n\nA good prompt of this type covers the following, so ask about anything missing:\n${rules.join('\n')}`
+  }
+  system += `\n\nRespond with JSON only, in this shape:\n{"questions": [{"question": "...", "field": "<detail name or null>", "example": "<a short sample answer>"}]}`
+
+  let user = `Prompt:\n\n${prompt}`
+  if (advancedFields && Object.keys(advancedFields).length > 0) {
+    user += '\n\nContext already given:'
+    Object.entries(advancedFields).forEach(([key, value]) => {
+      user += `\n- ${key}: ${value}`
+    })
+  }
+
+  return [
+    { role: 'system', content: system },
+    { role: 'user', content: user },
+  ]
+}
+
+// Reads the questions out of the model's reply. Fields the type doesn't have
+// are dropped.
+export function parseQuestions(content: string, definition: PromptTypeDefinition): ClarifyingQuestion[] {
+  const reply = parseJsonReply(content, questionsReplySchema, 'Failed to generate clarifying questions')
+  const labels = new Set(definition.advancedFields.map((field) => field.label))
+  return reply.questions.slice(0, MAX_QUESTIONS).map((question, index) => ({
+    id: `q${index + 1}`,
+    question: question.question,
+    field: question.field && labels.has(question.field) ? question.field : undefined,
+    example: question.example || undefined,
+  }))
+}
+
+// Answers become extra context for the optimizer: an answer about an advanced
+// field fills that field, any other answer is keyed by its question
+export function foldClarifications(
+  advancedFields: Record<string, string> | undefined,
+  clarifications: Clarification[] | undefined
+): Record<string, string> | undefined {
+  const answered = (clarifications ?? []).filter((clarification) => clarification.answer)
+  if (answered.length === 0) return advancedFields
+
+  const folded = { ...advancedFields }
+  answered.forEach((clarification) => {
+    folded[clarification.field || clarification.question] = clarification.answer
+  })
+  return folded
+}
@@ -0,0 +1,112 @@
+export type DiffOp = 'equal' | 'insert' | 'delete'
+
+export interface DiffSegment {
+  op: DiffOp
+  text: string
+}
+
+// Splits text into words and the whitespace between them so that a diff can
+// be rendered back without losing line breaks or spacing
+export function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? []
+}
+
+function pushSegment(segments: DiffSegment[], op: DiffOp, text: string) {
+  const last = segments[segments.length - 1]
+  if (last && last.op === op) {
+    last.text += text
+  } else {
+    segments.push({ op, text })
+  }
+}
+
+// Largest LCS table diffed token by token, about 16 MB. Longer texts are
+// diffed line by line, and past that the changed middle is shown as replaced.
+const MAX_DIFF_CELLS = 4_000_000
+
+// Splits text into lines, each keeping its line break
+function tokenizeLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+/g) ?? []
+}
+
+// Appends the diff of the token lists `a` and `b`, based on their longest
+// common subsequence, to `segments`. Returns false without appending anything
+// when the table would exceed MAX_DIFF_CELLS.
+function diffTokens(a: string[], b: string[], segments: DiffSegment[]): boolean {
+  const rows = a.length
+  const cols = b.length
+  if ((rows + 1) * (cols + 1) > MAX_DIFF_CELLS) return false
+
+  // lengths[i * (cols + 1) + j] is the LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((rows + 1) * (cols + 1))
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i * (cols + 1) + j] = a[i] === b[j]
+        ? lengths[(i + 1) * (cols + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (cols + 1) + j], lengths[i * (cols + 1) + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < rows && j < cols) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i])
+      i++
+      j++
+    } else if (lengths[(i + 1) * (cols + 1) + j] >= lengths[i * (cols + 1) + j + 1]) {
+      pushSegment(segments, 'delete', a[i++])
+    } else {
+      pushSegment(segments, 'insert', b[j++])
+    }
+  }
+  while (i < rows) pushSegment(segments, 'delete', a[i++])
+  while (j < cols) pushSegment(segments, 'insert', b[j++])
+  return true
+}
+
+// Word-level diff of `before` against `after`. Adjacent segments with the
+// same op are merged.
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenizeWords(before)
+  const b = tokenizeWords(after)
+
+  // Trim the common prefix and suffix first; most rewrites keep large parts
+  // of the text untouched and this keeps the LCS table small
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const segments: DiffSegment[] = []
+  if (start > 0) pushSegment(segments, 'equal', a.slice(0, start).join(''))
+
+  const middleA = a.slice(start, endA)
+  const middleB = b.slice(start, endB)
+  if (
+    !diffTokens(middleA, middleB, segments) &&
+    !diffTokens(tokenizeLines(middleA.join('')), tokenizeLines(middleB.join('')), segments)
+  ) {
+    pushSegment(segments, 'delete', middleA.join(''))
+    pushSegment(segments, 'insert', middleB.join(''))
+  }
+
+  if (endA < a.length) pushSegment(segments, 'equal', a.slice(endA).join(''))
+  return segments
+}
+
+export function summarizeDiff(segments: DiffSegment[]) {
+  const countWords = (text: string) => tokenizeWords(text).filter((token) => token.trim()).length
+  return segments.reduce(
+    (summary, segment) => {
+      if (segment.op === 'insert') summary.inserted += countWords(segment.text)
+      if (segment.op === 'delete') summary.deleted += countWords(segment.text)
+      return summary
+    },
+    { inserted: 0, deleted: 0 }
+  )
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod'
+import { RequestError } from './errors'
+import { findModelPrice, getModelPrices, type ModelPrice } from './pricing'
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, type CompletionRequest, type LLMProvider } from './providers'
+
+export const MAX_TOKENS_LIMIT = 4096
+
+export const engineOptionsSchema = z
+  .object({
+    model: z.string().trim().min(1).optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    topP: z.number().gt(0).max(1).optional(),
+    maxTokens: z.number().int().min(1).max(MAX_TOKENS_LIMIT).optional(),
+    seed: z.number().int().optional(),
+  })
+  .strict()
+
+export type EngineOptions = z.infer<typeof engineOptionsSchema>
+
+export interface EngineConfig {
+  provider: string
+  models: string[]
+  defaultModel: string
+  defaults: {
+    temperature: number
+    maxTokens: number
+  }
+  limits: {
+    maxTokens: number
+  }
+  // Prices of the allowed models that have one, for cost estimates
+  prices: Record<string, ModelPrice>
+}
+
+export function getEngineConfig(provider: LLMProvider): EngineConfig {
+  const prices = getModelPrices()
+  return {
+    provider: provider.id,
+    models: provider.models,
+    defaultModel: provider.defaultModel,
+    defaults: {
+      temperature: DEFAULT_TEMPERATURE,
+      maxTokens: DEFAULT_MAX_TOKENS,
+    },
+    limits: {
+      maxTokens: MAX_TOKENS_LIMIT,
+    },
+    prices: Object.fromEntries(
+      provider.models.flatMap((model) => {
+        const price = findModelPrice(prices, model)
+        return price ? [[model, price]] : []
+      })
+    ),
+  }
+}
+
+// Validates the request's `options` against the schema and the provider's
+// model allow-list, returning the sampling fields for a completion request.
+// `defaults` (from the meta-prompt) fill in what the request leaves out; a
+// default model the provider does not allow is ignored rather than rejected.
+export function resolveEngineOptions(
+  provider: LLMProvider,
+  options: unknown,
+  defaults: Pick<EngineOptions, 'model' | 'temperature'> = {}
+): Omit<CompletionRequest, 'messages' | 'signal'> {
+  const parsed = engineOptionsSchema.safeParse(options ?? {})
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new RequestError('Invalid options', 400, `${issue.path.join('.') || 'options'}: ${issue.message}`)
+  }
+
+  const defaultModel = defaults.model && provider.models.includes(defaults.model) ? defaults.model : provider.defaultModel
+  const { model = defaultModel, temperature = defaults.temperature, ...sampling } = parsed.data
+  if (!provider.models.includes(model)) {
+    throw new RequestError(`Model not allowed: ${model}`)
+  }
+
+  return { model, temperature, ...sampling }
+}
@@ -0,0 +1,13 @@
+// An error the API routes can report as-is: the message is safe to show to the
+// client and `status` is the HTTP status to respond with.
+export class RequestError extends Error {
+  status: number
+  details?: string
+
+  constructor(message: string, status = 400, details?: string) {
+    super(message)
+    this.name = 'RequestError'
+    this.status = status
+    this.details = details
+  }
+}
@@ -0,0 +1,102 @@
+import type { MetaPrompt } from './meta-prompt'
+import { addUsage, type Usage } from './providers'
+import { listFeedback, listRuns } from './runs'
+
+export interface VersionReport {
+  type: string
+  version: string
+  description?: string
+  traffic: number
+  runs: number
+  usage?: Usage
+  averageTotalTokens: number
+  ratings: {
+    up: number
+    down: number
+    // Share of rated runs that were rated up, null until something is rated
+    approval: number | null
+  }
+}
+
+// Turns each version's `traffic` into a share of requests that adds up to 100.
+// The primary version (first) takes whatever the alternates leave over unless
+// it sets its own `traffic`; alternates without one get no traffic.
+export function getTrafficShares(versions: MetaPrompt[]): number[] {
+  const [primary, ...alternates] = versions
+  const alternateWeights = alternates.map((version) => version.traffic ?? 0)
+  const alternateTotal = alternateWeights.reduce((sum, weight) => sum + weight, 0)
+  const weights = [primary.traffic ?? Math.max(0, 100 - alternateTotal), ...alternateWeights]
+
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  if (total === 0) {
+    return weights.map((_, index) => (index === 0 ? 100 : 0))
+  }
+  return weights.map((weight) => (weight / total) * 100)
+}
+
+export function pickMetaPromptVersion(versions: MetaPrompt[], random = Math.random()): MetaPrompt {
+  const shares = getTrafficShares(versions)
+  let threshold = random * 100
+  for (let index = 0; index < versions.length; index++) {
+    threshold -= shares[index]
+    if (threshold < 0) return versions[index]
+  }
+  return versions[0]
+}
+
+// Aggregates logged runs and their feedback per meta-prompt version, so a
+// version can be promoted (given all the traffic) once it is clearly better
+export async function getExperimentReport(type: string, versions: MetaPrompt[]): Promise<VersionReport[]> {
+  const [runs, feedback] = await Promise.all([listRuns(), listFeedback()])
+  const shares = getTrafficShares(versions)
+
+  // The latest rating for a run wins
+  const ratings = new Map<string, 1 | -1>()
+  feedback.forEach((entry) => ratings.set(entry.runId, entry.rating))
+
+  const reports = new Map<string, VersionReport>()
+  versions.forEach((version, index) => {
+    reports.set(version.version, {
+      type,
+      version: version.version,
+      description: version.description,
+      traffic: shares[index],
+      runs: 0,
+      averageTotalTokens: 0,
+      ratings: { up: 0, down: 0, approval: null },
+    })
+  })
+
+  for (const run of runs) {
+    if (run.type !== type) continue
+
+    // Runs of versions that have since been removed still get reported
+    let report = reports.get(run.metaPromptVersion)
+    if (!report) {
+      report = {
+        type,
+        version: run.metaPromptVersion,
+        traffic: 0,
+        runs: 0,
+        averageTotalTokens: 0,
+        ratings: { up: 0, down: 0, approval: null },
+      }
+      reports.set(run.metaPromptVersion, report)
+    }
+
+    report.runs++
+    report.usage = addUsage(report.usage, run.usage)
+    const rating = ratings.get(run.id)
+    if (rating === 1) report.ratings.up++
+    if (rating === -1) report.ratings.down++
+  }
+
+  return Array.from(reports.values()).map((report) => {
+    const rated = report.ratings.up + report.ratings.down
+    return {
+      ...report,
+      averageTotalTokens: report.runs > 0 && report.usage ? report.usage.total_tokens / report.runs : 0,
+      ratings: { ...report.ratings, approval: rated > 0 ? report.ratings.up / rated : null },
+    }
+  })
+}
@@ -0,0 +1,133 @@
+import type { OutputSection } from './meta-prompt'
+import type { OptimizationStrategy, PromptType } from './optimizer'
+import type { Usage } from './providers'
+
+const DB_NAME = 'gioprompt'
+const DB_VERSION = 1
+const STORE_NAME = 'history'
+
+export interface HistoryEntry {
+  id: string
+  createdAt: number
+  input: string
+  type: PromptType
+  advancedFields: Record<string, string>
+  output: string
+  negativePrompt?: string
+  // Parts split off the output for the target platform, such as Midjourney parameters
+  sections?: OutputSection[]
+  variants?: {
+    runId?: string
+    strategy?: OptimizationStrategy
+    optimizedPrompt: string
+    negativePrompt?: string
+    sections?: OutputSection[]
+  }[]
+  // Answers given to clarifying questions before optimizing
+  clarifications?: { question: string; field?: string; answer: string }[]
+  // Refinement steps on the output, oldest first; `output` is the last one
+  revisions?: {
+    instruction?: string
+    runId?: string
+    optimizedPrompt: string
+    negativePrompt?: string
+    sections?: OutputSection[]
+  }[]
+  // Server-side run id, for attaching feedback
+  runId?: string
+  provider?: string
+  model?: string
+  metaPromptVersion?: string
+  target?: string
+  maxLength?: number
+  usage?: Usage
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'createdAt'>
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        store.createIndex('createdAt', 'createdAt')
+        store.createIndex('type', 'type')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase()
+  return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+}
+
+export async function addHistoryEntry(entry: NewHistoryEntry): Promise<HistoryEntry> {
+  const saved: HistoryEntry = {
+    ...entry,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+  }
+  const store = await getStore('readwrite')
+  await toPromise(store.add(saved))
+  return saved
+}
+
+// Replaces a saved entry, such as when a refinement adds a revision to it
+export async function updateHistoryEntry(entry: HistoryEntry): Promise<void> {
+  const store = await getStore('readwrite')
+  await toPromise(store.put(entry))
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  const store = await getStore('readwrite')
+  await toPromise(store.delete(id))
+}
+
+export async function clearHistory(): Promise<void> {
+  const store = await getStore('readwrite')
+  await toPromise(store.clear())
+}
+
+// Lists entries newest first, optionally limited to one prompt type
+export async function listHistoryEntries(type?: PromptType): Promise<HistoryEntry[]> {
+  const store = await getStore('readonly')
+  const entries = await toPromise<HistoryEntry[]>(
+    type ? store.index('type').getAll(type) : store.getAll()
+  )
+  return entries.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+// Case-insensitive match of every search term against the entry's input,
+// output, variants, refinement instructions and advanced field values
+export function matchesHistorySearch(entry: HistoryEntry, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (terms.length === 0) return true
+
+  const haystack = [
+    entry.input,
+    entry.output,
+    ...(entry.variants ?? []).map((variant) => variant.optimizedPrompt),
+    ...(entry.revisions ?? []).map((revision) => revision.instruction ?? ''),
+    ...Object.values(entry.advancedFields),
+    entry.model ?? '',
+  ].join('\n').toLowerCase()
+
+  return terms.every((term) => haystack.includes(term))
+}
@@ -0,0 +1,27 @@
+import type { z } from 'zod'
+import { RequestError } from './errors'
+
+// Reads the JSON object out of a model's reply, tolerating code fences or text
+// around it. Anything that doesn't match the schema fails the request with
+// `failure` as the message.
+export function parseJsonReply<T extends z.ZodTypeAny>(content: string, schema: T, failure: string): z.infer<T> {
+  const start = content.indexOf('{')
+  const end = content.lastIndexOf('}')
+  if (start === -1 || end < start) {
+    throw new RequestError(failure, 500, 'The reply was not JSON')
+  }
+
+  let reply: unknown
+  try {
+    reply = JSON.parse(content.slice(start, end + 1))
+  } catch (error) {
+    throw new RequestError(failure, 500, error instanceof Error ? error.message : undefined)
+  }
+
+  const parsed = schema.safeParse(reply)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new RequestError(failure, 500, `${issue.path.join('.') || 'reply'}: ${issue.message}`)
+  }
+  return parsed.data
+}
@@ -0,0 +1,185 @@
+import { parse as parseYaml } from 'yaml'
+import { z } from 'zod'
+
+const FRONT_MATTER_PATTERN = /^---\n([\s\S]*?)\n---\n?/
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i')
+    return true
+  } catch {
+    return false
+  }
+}
+
+const requirementSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  pattern: z.string().refine(isValidPattern, 'Invalid regular expression'),
+})
+
+const exampleSchema = z.object({
+  input: z.string(),
+  output: z.string(),
+})
+
+// A part of the output introduced by a line starting with `marker`, such as
+// Stable Diffusion's "Negative prompt:", shown to the user as its own box
+const sectionSchema = z.object({
+  name: z.string(),
+  label: z.string(),
+  marker: z.string().min(1),
+  // Character limit of the platform field the section is pasted into
+  maxLength: z.number().int().positive().optional(),
+})
+
+// Formatting for one target platform. Anything it defines replaces the base
+// meta-prompt's version.
+const targetSchema = z.object({
+  instructions: z.string(),
+  constraints: z.array(z.string()).optional(),
+  requirements: z.array(requirementSchema).optional(),
+  examples: z.array(exampleSchema).optional(),
+  sections: z.array(sectionSchema).optional(),
+  maxLength: z.number().int().positive().optional(),
+})
+
+const frontMatterSchema = z.object({
+  version: z.coerce.string().default('1'),
+  description: z.string().optional(),
+  model: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  // Percentage of requests routed to this version, see experiments.ts
+  traffic: z.number().min(0).max(100).optional(),
+  constraints: z.array(z.string()).default([]),
+  // Elements the rules require in every output, matched case-insensitively
+  requirements: z.array(requirementSchema).default([]),
+  examples: z.array(exampleSchema).default([]),
+  sections: z.array(sectionSchema).default([]),
+  // Character limit for the prompt itself, excluding sections
+  maxLength: z.number().int().positive().optional(),
+  // Keyed by the target ids listed in the type's manifest
+  targets: z.record(targetSchema).default({}),
+})
+
+export type MetaPromptFrontMatter = z.infer<typeof frontMatterSchema>
+export type OutputSectionDefinition = z.infer<typeof sectionSchema>
+
+export interface MetaPrompt extends MetaPromptFrontMatter {
+  type: string
+  // The prose instructions below the front matter
+  instructions: string
+  // Set once a target has been applied, see applyTarget
+  target?: string
+}
+
+export interface OutputSection {
+  name: string
+  label: string
+  content: string
+  maxLength?: number
+}
+
+// Parses a meta-prompt file: an optional YAML front matter block between `---`
+// lines, followed by the instructions. Files without front matter are treated
+// as instructions only.
+export function parseMetaPrompt(type: string, source: string): MetaPrompt {
+  const normalized = source.replace(/\r\n/g, '\n')
+  const match = normalized.match(FRONT_MATTER_PATTERN)
+
+  let data: unknown = {}
+  if (match) {
+    try {
+      data = parseYaml(match[1]) ?? {}
+    } catch (error) {
+      throw new Error(`Invalid front matter in ${type} meta-prompt: ${error instanceof Error ? error.message : error}`)
+    }
+  }
+
+  const parsed = frontMatterSchema.safeParse(data)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new Error(`Invalid front matter in ${type} meta-prompt: ${issue.path.join('.')}: ${issue.message}`)
+  }
+
+  return {
+    ...parsed.data,
+    type,
+    instructions: (match ? normalized.slice(match[0].length) : normalized).trim(),
+  }
+}
+
+export function supportsTarget(metaPrompt: MetaPrompt, target: string): boolean {
+  return Object.prototype.hasOwnProperty.call(metaPrompt.targets, target)
+}
+
+// The meta-prompt as used for one target platform: the target's instructions
+// follow the base ones and its rules take over where it defines them
+export function applyTarget(metaPrompt: MetaPrompt, target: string): MetaPrompt {
+  if (!supportsTarget(metaPrompt, target)) {
+    throw new Error(`${metaPrompt.type} meta-prompt version ${metaPrompt.version} has no target ${target}`)
+  }
+
+  const definition = metaPrompt.targets[target]
+  return {
+    ...metaPrompt,
+    instructions: `${metaPrompt.instructions}\n\nTARGET PLATFORM:\n${definition.instructions.trim()}`,
+    constraints: definition.constraints ?? metaPrompt.constraints,
+    requirements: definition.requirements ?? metaPrompt.requirements,
+    examples: definition.examples ?? metaPrompt.examples,
+    target,
+    sections: definition.sections ?? metaPrompt.sections,
+    maxLength: definition.maxLength ?? metaPrompt.maxLength,
+  }
+}
+
+// Splits off the sections the meta-prompt asks for. Everything before the
+// first marker line is the prompt itself; sections that are missing from the
+// output are left out.
+export function splitSections(
+  output: string,
+  sections: OutputSectionDefinition[]
+): { prompt: string; sections: OutputSection[] } {
+  if (sections.length === 0) {
+    return { prompt: output, sections: [] }
+  }
+
+  const promptLines: string[] = []
+  const found = new Map<OutputSectionDefinition, string[]>()
+  let current: string[] = promptLines
+
+  for (const line of output.split('\n')) {
+    const trimmed = line.trim().replace(/^\*\*/, '')
+    const section = sections.find((candidate) => trimmed.toLowerCase().startsWith(candidate.marker.toLowerCase()))
+    if (section) {
+      current = found.get(section) ?? []
+      found.set(section, current)
+      current.push(trimmed.slice(section.marker.length).replace(/^\*\*/, ''))
+    } else {
+      current.push(line)
+    }
+  }
+
+  return {
+    prompt: promptLines.join('\n').trim(),
+    sections: sections
+      .filter((section) => found.has(section))
+      .map((section) => ({
+        name: section.name,
+        label: section.label,
+        content: found.get(section)!.join('\n').trim(),
+        maxLength: section.maxLength,
+      }))
+      .filter((section) => section.content),
+  }
+}
+
+// The system message: the instructions plus the output constraints. Examples
+// are sent separately as few-shot turns.
+export function buildSystemPrompt(metaPrompt: MetaPrompt): string {
+  if (metaPrompt.constraints.length === 0) {
+    return metaPrompt.instructions
+  }
+  const constraints = metaPrompt.constraints.map((constraint) => `- ${constraint}`).join('\n')
+  return `${metaPrompt.instructions}\n\nOUTPUT CONSTRAINTS:\n${constraints}`
+}
@@ -0,0 +1,213 @@
+import { readdir, readFile } from 'fs/promises'
+import { join } from 'path'
+import { RequestError } from './errors'
+import { pickMetaPromptVersion } from './experiments'
+import { formatBudget, type LengthBudget } from './budget'
+import type { LengthLimit } from './checks'
+import { applyTarget, buildSystemPrompt, parseMetaPrompt, supportsTarget, type MetaPrompt } from './meta-prompt'
+import { getPromptType, PROMPTS_DIR } from './prompt-types'
+import type { ChatMessage } from './providers'
+
+// Prompt types are discovered from the prompts directory, see prompt-types.ts
+export type PromptType = string
+
+export const MAX_VARIANTS = 5
+
+// Extra direction appended to the user message when a variant asks for a
+// particular style of rewrite
+export const OPTIMIZATION_STRATEGIES = {
+  concise: 'Keep the optimized prompt as short as possible: include only the details that materially change the result and drop everything else.',
+  detailed: 'Make the optimized prompt as thorough as possible: cover every element the rules call for with precise, concrete detail.',
+  creative: 'Take creative liberties: introduce unexpected but fitting ideas, imagery or angles that the original prompt did not suggest.',
+} as const
+
+export type OptimizationStrategy = keyof typeof OPTIMIZATION_STRATEGIES
+
+export function isOptimizationStrategy(value: unknown): value is OptimizationStrategy {
+  return typeof value === 'string' && value in OPTIMIZATION_STRATEGIES
+}
+
+// `compress` rewrites the prompt to be shorter instead of expanding it
+export type OptimizeMode = 'optimize' | 'compress'
+
+export function parseOptimizeMode(value: unknown): OptimizeMode {
+  if (value === undefined || value === 'optimize' || value === 'compress') {
+    return value ?? 'optimize'
+  }
+  throw new RequestError(`Unknown mode: ${value}`)
+}
+
+// Request-wide direction appended to the user message
+export interface MessageOptions {
+  mode: OptimizeMode
+  budget?: LengthBudget
+  // Template slots from the input that have to come through verbatim
+  placeholders?: string[]
+}
+
+const COMPRESS_INSTRUCTION =
+  'Compress the prompt instead of expanding it: rewrite it as short as possible while keeping its subject, every key constraint and any required parameters. Drop filler, repetition and details that would barely change the result.'
+
+// Direction on length appended to the user message, if the request has any
+function buildLengthInstruction({ mode, budget }: MessageOptions): string | undefined {
+  const instructions: string[] = []
+  if (mode === 'compress') {
+    instructions.push(COMPRESS_INSTRUCTION)
+  }
+  if (budget) {
+    instructions.push(`The optimized prompt must fit within ${formatBudget(budget)}; leave out the least important details first.`)
+  }
+  return instructions.length > 0 ? instructions.join(' ') : undefined
+}
+
+function buildPlaceholderInstruction(placeholders: string[]): string {
+  return `The prompt is a template with these placeholders, filled in later: ${placeholders.join(', ')}. Keep every one of them exactly as written, braces included, where its value belongs. Do not fill them in, rename them or add new ones.`
+}
+
+export function buildShortenMessage(budget: LengthBudget, length: number): string {
+  return `That prompt is ${length} ${budget.unit}, over the budget of ${formatBudget(budget)}. Shorten it to fit, keeping the key constraints. Output ONLY the optimized prompt.`
+}
+
+export function buildLimitMessage(limits: LengthLimit[]): string {
+  const over = limits.map((limit) => `- ${limit.label} is ${limit.length} characters; the platform allows ${limit.maxLength}.`).join('\n')
+  return `Your answer does not fit the platform's limits:\n${over}\n\nShorten those parts to fit, keeping the key constraints and the same format. Output ONLY the optimized prompt.`
+}
+
+export function buildRefinementMessage(instruction: string): string {
+  return `Revise your last optimized prompt: ${instruction}\n\nEdit that prompt rather than starting over, keep everything the change does not touch, and keep following every rule. Output ONLY the revised prompt.`
+}
+
+// Works out which variants a request wants: one per listed strategy, or `n`
+// plain samples. Returns a single plain variant when neither is given.
+export function resolveVariants(n: unknown, strategies: unknown): (OptimizationStrategy | undefined)[] {
+  if (strategies !== undefined) {
+    if (!Array.isArray(strategies) || strategies.length === 0 || strategies.length > MAX_VARIANTS) {
+      throw new RequestError(`Strategies must be a list of 1 to ${MAX_VARIANTS} entries`)
+    }
+    const invalid = strategies.find((strategy) => !isOptimizationStrategy(strategy))
+    if (invalid !== undefined) {
+      throw new RequestError(`Unknown strategy: ${invalid}`)
+    }
+    return strategies
+  }
+
+  const count = n ?? 1
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_VARIANTS) {
+    throw new RequestError(`n must be an integer from 1 to ${MAX_VARIANTS}`)
+  }
+  return Array.from({ length: count }, () => undefined)
+}
+
+// Every version of a type's meta-prompt: `<type>.txt` first, then any
+// `<type>.<name>.txt` alternates, each identified by its front matter version
+export async function listMetaPromptVersions(type: PromptType): Promise<MetaPrompt[]> {
+  await getPromptType(type)
+  const alternates = (await readdir(PROMPTS_DIR))
+    .filter((file) => file.startsWith(`${type}.`) && file.endsWith('.txt') && file !== `${type}.txt`)
+    .sort()
+
+  const versions: MetaPrompt[] = []
+  for (const file of [`${type}.txt`, ...alternates]) {
+    const content = await readFile(join(PROMPTS_DIR, file), 'utf-8')
+    const metaPrompt = parseMetaPrompt(type, content)
+    if (versions.some((existing) => existing.version === metaPrompt.version)) {
+      throw new Error(`Duplicate ${type} meta-prompt version ${metaPrompt.version} in ${file}`)
+    }
+    versions.push(metaPrompt)
+  }
+  return versions
+}
+
+// Loads the requested version, or picks one according to the traffic split.
+// With a target, only versions that define it are considered and the result
+// has the target applied.
+export async function loadMetaPrompt(type: PromptType, version?: string, target?: string): Promise<MetaPrompt> {
+  let versions = await listMetaPromptVersions(type)
+
+  if (target !== undefined) {
+    const definition = await getPromptType(type)
+    if (!definition.targets.some((candidate) => candidate.id === target)) {
+      throw new RequestError(`Unknown ${type} target: ${target}`)
+    }
+    versions = versions.filter((candidate) => supportsTarget(candidate, target))
+    if (versions.length === 0) {
+      throw new RequestError(`No ${type} meta-prompt defines target ${target}`, 500)
+    }
+  }
+
+  let metaPrompt: MetaPrompt | undefined
+  if (version === undefined) {
+    metaPrompt = pickMetaPromptVersion(versions)
+  } else {
+    metaPrompt = versions.find((candidate) => candidate.version === version)
+    if (!metaPrompt) {
+      throw new RequestError(
+        target === undefined
+          ? `Unknown ${type} meta-prompt version: ${version}`
+          : `No ${type} meta-prompt version ${version} with target ${target}`
+      )
+    }
+  }
+
+  return target === undefined ? metaPrompt : applyTarget(metaPrompt, target)
+}
+
+export function buildUserMessage(
+  prompt: string,
+  type: PromptType,
+  advancedFields?: Record<string, string>,
+  strategy?: OptimizationStrategy,
+  options?: MessageOptions
+): string {
+  let userMessage = `Please optimize this ${type} generation prompt:\n\n${prompt}`
+
+  if (advancedFields && Object.keys(advancedFields).length > 0) {
+    userMessage += '\n\nAdditional context to incorporate:'
+    Object.entries(advancedFields).forEach(([key, value]) => {
+      userMessage += `\n- ${key}: ${value}`
+    })
+  }
+
+  if (strategy) {
+    userMessage += `\n\n${OPTIMIZATION_STRATEGIES[strategy]}`
+  }
+
+  const lengthInstruction = options && buildLengthInstruction(options)
+  if (lengthInstruction) {
+    userMessage += `\n\n${lengthInstruction}`
+  }
+
+  if (options?.placeholders && options.placeholders.length > 0) {
+    userMessage += `\n\n${buildPlaceholderInstruction(options.placeholders)}`
+  }
+
+  return userMessage
+}
+
+// System prompt, then each example as a user/assistant exchange phrased
+// exactly like a real request, then the prompt to optimize. Compression skips
+// the examples, which would pull the output toward their length.
+export function buildOptimizeMessages(
+  metaPrompt: MetaPrompt,
+  prompt: string,
+  advancedFields?: Record<string, string>,
+  strategy?: OptimizationStrategy,
+  options?: MessageOptions
+): ChatMessage[] {
+  const examples = (options?.mode === 'compress' ? [] : metaPrompt.examples).flatMap((example): ChatMessage[] => [
+    { role: 'user', content: buildUserMessage(example.input, metaPrompt.type) },
+    { role: 'assistant', content: example.output },
+  ])
+
+  return [
+    {
+      role: 'system',
+      content: buildSystemPrompt(metaPrompt),
+    },
+    ...examples,
+    {
+      role: 'user',
+      content: buildUserMessage(prompt, metaPrompt.type, advancedFields, strategy, options),
+    },
+  ]
+}
@@ -0,0 +1,471 @@
+import { MAX_BUDGET_RETRIES, measureLength, parseLengthBudget, type BudgetReport, type LengthBudget } from './budget'
+import { buildAnalyzeMessages, parseAnalysis, type PromptAnalysis } from './analyze'
+import { buildClarifyMessages, foldClarifications, parseClarifications, parseQuestions, type ClarifyingQuestion } from './clarify'
+import { checkOutput, checkPlaceholders, cleanOutput, measureLimits, MAX_LIMIT_RETRIES, type CheckResult, type LengthLimit } from './checks'
+import { resolveEngineOptions } from './engine'
+import { RequestError } from './errors'
+import { splitSections, type MetaPrompt, type OutputSection } from './meta-prompt'
+import {
+  buildLimitMessage,
+  buildOptimizeMessages,
+  buildRefinementMessage,
+  buildShortenMessage,
+  loadMetaPrompt,
+  parseOptimizeMode,
+  type OptimizationStrategy,
+  type OptimizeMode,
+  type PromptType,
+} from './optimizer'
+import { findPlaceholders } from './placeholders'
+import { getPromptType } from './prompt-types'
+import { addUsage, getProvider, type ChatMessage, type CompletionRequest, type LLMProvider, type Usage } from './providers'
+import { parseRefinement, type Refinement, type Revision } from './refinement'
+import { recordRun } from './runs'
+
+export interface OptimizeRequest {
+  prompt: string
+  type: PromptType
+  advancedFields?: Record<string, string>
+  provider?: string
+  options?: unknown
+  metaPromptVersion?: string
+  // Target platform id from the type's manifest, such as `midjourney`
+  target?: string
+  // Ask the model once more when the cleaned-up output still breaks a rule
+  reask?: boolean
+  // `optimize` (default) or `compress`
+  mode?: string
+  // `{ limit, unit }` the prompt must fit, in tokens or characters
+  budget?: unknown
+  // `{ revisions, instruction }` to edit the last revision instead of
+  // optimizing `prompt` from scratch
+  refinement?: unknown
+  // `[{ question, field, answer }]` from a clarifying-questions round
+  clarifications?: unknown
+}
+
+// Everything resolved once per request and shared by all of its completions
+export interface OptimizeContext {
+  request: OptimizeRequest
+  provider: LLMProvider
+  metaPrompt: MetaPrompt
+  engineOptions: Omit<CompletionRequest, 'messages' | 'signal'>
+  mode: OptimizeMode
+  budget?: LengthBudget
+  refinement?: Refinement
+  // The request's advanced fields with any clarifying answers folded in
+  advancedFields?: Record<string, string>
+  // Template slots in the prompt, such as `{{customer_name}}`
+  placeholders: string[]
+  logRuns: boolean
+}
+
+export interface PrepareOptions {
+  // Overrides the provider named in the request, e.g. to run the pipeline
+  // against a recorded provider offline
+  provider?: LLMProvider
+  // Set to false to keep runs out of the run log (evaluations, tests)
+  logRuns?: boolean
+}
+
+export interface ComplianceReport {
+  // How many checks the output was held to
+  checks: number
+  // Checks that failed on the raw output but were fixed by cleanup
+  fixed: string[]
+  // Checks still failing on the returned output
+  warnings: Pick<CheckResult, 'name' | 'message'>[]
+  reasked: boolean
+  // Extra completions spent fitting the platform's field limits
+  limitRetries: number
+}
+
+export interface OptimizeResult {
+  // Absent when the run could not be logged
+  runId?: string
+  optimizedPrompt: string
+  strategy?: OptimizationStrategy
+  usage?: Usage
+  provider: string
+  model: string
+  metaPromptVersion: string
+  target?: string
+  // The target platform's character limit for optimizedPrompt
+  maxLength?: number
+  // What the image or video should avoid, from the `negative` section
+  negativePrompt?: string
+  // Other parts of the output pasted separately from the prompt
+  sections?: OutputSection[]
+  compliance: ComplianceReport
+  budget?: BudgetReport
+}
+
+export type OptimizeStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; result: OptimizeResult }
+
+export async function prepareOptimization(
+  request: OptimizeRequest,
+  { provider, logRuns = true }: PrepareOptions = {}
+): Promise<OptimizeContext> {
+  const resolvedProvider = provider ?? getProvider(request.provider)
+  const metaPrompt = await loadMetaPrompt(request.type, request.metaPromptVersion, request.target)
+  return {
+    request,
+    provider: resolvedProvider,
+    metaPrompt,
+    engineOptions: resolveEngineOptions(resolvedProvider, request.options, metaPrompt),
+    mode: parseOptimizeMode(request.mode),
+    budget: parseLengthBudget(request.budget),
+    refinement: parseRefinement(request.refinement),
+    advancedFields: foldClarifications(request.advancedFields, parseClarifications(request.clarifications)),
+    placeholders: findPlaceholders(request.prompt),
+    logRuns,
+  }
+}
+
+// A refinement replays the conversation so far: the original request, each
+// revision as the model's answer, and each instruction as the user's reply
+function buildRefinementTurns(context: OptimizeContext): ChatMessage[] {
+  const { refinement } = context
+  if (!refinement) return []
+
+  return [
+    ...refinement.revisions.flatMap((revision): ChatMessage[] => {
+      const answer: ChatMessage = { role: 'assistant', content: joinOutput(context, revision) }
+      return revision.instruction
+        ? [{ role: 'user', content: buildRefinementMessage(revision.instruction) }, answer]
+        : [answer]
+    }),
+    { role: 'user', content: buildRefinementMessage(refinement.instruction) },
+  ]
+}
+
+function buildCompletionRequest(context: OptimizeContext, strategy?: OptimizationStrategy, signal?: AbortSignal): CompletionRequest {
+  const { request, metaPrompt, engineOptions, mode, budget, advancedFields, placeholders } = context
+  return {
+    ...engineOptions,
+    messages: [
+      ...buildOptimizeMessages(metaPrompt, request.prompt, advancedFields, strategy, { mode, budget, placeholders }),
+      ...buildRefinementTurns(context),
+    ],
+    signal,
+  }
+}
+
+interface CompliantOutput {
+  output: string
+  usage?: Usage
+  compliance: ComplianceReport
+  budget?: BudgetReport
+}
+
+function cleanAndCheck(context: OptimizeContext, raw: string) {
+  const { output, fixed } = cleanOutput(raw)
+  const checks = [...checkOutput(context.metaPrompt, output), ...checkPlaceholders(context.placeholders, output)]
+  return { output, fixed, checks: checks.length, failed: checks.filter((check) => !check.passed) }
+}
+
+// The budget covers the prompt itself, not sections such as a negative prompt
+function measurePrompt(context: OptimizeContext, output: string, budget: LengthBudget): Promise<number> {
+  const { prompt } = splitSections(output, context.metaPrompt.sections)
+  return measureLength(prompt || output, budget.unit, context.engineOptions.model)
+}
+
+// Characters over the platform's field limits, summed over the fields
+function overshoot(limits: LengthLimit[]): number {
+  return limits.reduce((total, limit) => total + Math.max(0, limit.length - limit.maxLength), 0)
+}
+
+// Hands the model its previous answer with a correction to make
+function requestRevision(context: OptimizeContext, completionRequest: CompletionRequest, previous: string, correction: string) {
+  return context.provider.complete({
+    ...completionRequest,
+    messages: [
+      ...completionRequest.messages,
+      { role: 'assistant', content: previous },
+      { role: 'user', content: correction },
+    ],
+  })
+}
+
+// Cleans up the raw output and checks it against the meta-prompt's rules. If
+// something still fails and the request allows it, the model gets one chance
+// to fix its answer; the attempt with fewer failures wins. An output over the
+// platform's field limits is then sent back for shortening whether or not the
+// request allows re-asking, up to MAX_LIMIT_RETRIES times, and likewise an
+// output over the length budget, up to MAX_BUDGET_RETRIES times.
+async function enforceCompliance(
+  context: OptimizeContext,
+  completionRequest: CompletionRequest,
+  raw: string,
+  usage: Usage | undefined
+): Promise<CompliantOutput> {
+  let best = cleanAndCheck(context, raw)
+  let totalUsage = usage
+  let reasked = false
+
+  if (best.failed.length > 0 && context.request.reask) {
+    reasked = true
+    const violations = best.failed.map((check) => `- ${check.message}`).join('\n')
+    const retry = await requestRevision(
+      context,
+      completionRequest,
+      raw,
+      `Your answer does not follow these rules:\n${violations}\n\nRewrite it so that it follows every rule. Output ONLY the optimized prompt.`
+    )
+    totalUsage = addUsage(totalUsage, retry.usage)
+
+    const retried = cleanAndCheck(context, retry.content)
+    if (retried.output && retried.failed.length < best.failed.length) {
+      best = retried
+    }
+  }
+
+  if (!best.output) {
+    throw new RequestError('Failed to generate optimized prompt', 500)
+  }
+
+  let limits = measureLimits(context.metaPrompt, best.output)
+  let limitRetries = 0
+  while (overshoot(limits) > 0 && limitRetries < MAX_LIMIT_RETRIES) {
+    limitRetries++
+    const over = limits.filter((limit) => limit.length > limit.maxLength)
+    const retry = await requestRevision(context, completionRequest, best.output, buildLimitMessage(over))
+    totalUsage = addUsage(totalUsage, retry.usage)
+
+    const retried = cleanAndCheck(context, retry.content)
+    if (!retried.output) continue
+    // The limits are what the platform accepts, so getting closer to them
+    // wins even if the answer breaks more of the other rules
+    const retriedLimits = measureLimits(context.metaPrompt, retried.output)
+    if (overshoot(retriedLimits) < overshoot(limits)) {
+      best = retried
+      limits = retriedLimits
+    }
+  }
+
+  let budgetReport: BudgetReport | undefined
+  if (context.budget) {
+    const budget = context.budget
+    let length = await measurePrompt(context, best.output, budget)
+    let retries = 0
+
+    while (length > budget.limit && retries < MAX_BUDGET_RETRIES) {
+      retries++
+      const retry = await requestRevision(context, completionRequest, best.output, buildShortenMessage(budget, length))
+      totalUsage = addUsage(totalUsage, retry.usage)
+
+      const retried = cleanAndCheck(context, retry.content)
+      if (!retried.output) continue
+      // The budget is a hard limit, so a shorter answer wins even if it
+      // breaks more of the other rules
+      const retriedLength = await measurePrompt(context, retried.output, budget)
+      if (retriedLength < length) {
+        best = retried
+        length = retriedLength
+      }
+    }
+
+    budgetReport = { ...budget, length, met: length <= budget.limit, retries }
+  }
+
+  return {
+    output: best.output,
+    usage: totalUsage,
+    compliance: {
+      checks: best.checks,
+      fixed: best.fixed,
+      warnings: best.failed.map(({ name, message }) => ({ name, message })),
+      reasked,
+      limitRetries,
+    },
+    budget: budgetReport,
+  }
+}
+
+const NEGATIVE_SECTION = 'negative'
+
+// Splits the meta-prompt's sections, such as a negative prompt, off the
+// checked output. An output that is all sections is returned whole.
+function formatOutput(
+  context: OptimizeContext,
+  output: string
+): Pick<OptimizeResult, 'optimizedPrompt' | 'target' | 'maxLength' | 'negativePrompt' | 'sections'> {
+  const { target, maxLength } = context.metaPrompt
+  const { prompt, sections } = splitSections(output, context.metaPrompt.sections)
+  if (!prompt || sections.length === 0) {
+    return { optimizedPrompt: output, target, maxLength }
+  }
+
+  const others = sections.filter((section) => section.name !== NEGATIVE_SECTION)
+  return {
+    optimizedPrompt: prompt,
+    target,
+    maxLength,
+    negativePrompt: sections.find((section) => section.name === NEGATIVE_SECTION)?.content,
+    sections: others.length > 0 ? others : undefined,
+  }
+}
+
+// The reverse of formatOutput: puts a revision back together the way the
+// meta-prompt asks the model to write it
+function joinOutput(context: OptimizeContext, revision: Revision): string {
+  const contents = new Map((revision.sections ?? []).map((section) => [section.name, section.content]))
+  if (revision.negativePrompt) {
+    contents.set(NEGATIVE_SECTION, revision.negativePrompt)
+  }
+
+  return [
+    revision.optimizedPrompt,
+    ...context.metaPrompt.sections
+      .filter((section) => contents.get(section.name))
+      .map((section) => `${section.marker} ${contents.get(section.name)}`),
+  ].join('\n\n')
+}
+
+// Logging is best-effort: a read-only or full disk must not fail the request
+async function finishRun(context: OptimizeContext, result: Omit<OptimizeResult, 'runId'>): Promise<OptimizeResult> {
+  if (!context.logRuns) return result
+  try {
+    const run = await recordRun({
+      type: context.request.type,
+      metaPromptVersion: result.metaPromptVersion,
+      provider: result.provider,
+      model: result.model,
+      prompt: context.request.prompt,
+      advancedFields: context.advancedFields,
+      strategy: result.strategy,
+      mode: context.mode,
+      instruction: context.refinement?.instruction,
+      target: result.target,
+      output: result.optimizedPrompt,
+      negativePrompt: result.negativePrompt,
+      sections: result.sections,
+      usage: result.usage,
+    })
+    return { ...result, runId: run.id }
+  } catch (error) {
+    console.error('Failed to record run:', error)
+    return result
+  }
+}
+
+export interface ClarifyResult {
+  questions: ClarifyingQuestion[]
+  usage?: Usage
+  provider: string
+  model: string
+}
+
+// Asks the model what the prompt leaves open instead of optimizing it. No
+// questions means the prompt is specific enough to optimize as it is.
+export async function runClarification(context: OptimizeContext, signal?: AbortSignal): Promise<ClarifyResult> {
+  const definition = await getPromptType(context.request.type)
+  const completion = await context.provider.complete({
+    ...context.engineOptions,
+    messages: buildClarifyMessages(context.metaPrompt, definition, context.request.prompt, context.advancedFields),
+    signal,
+  })
+
+  return {
+    questions: parseQuestions(completion.content, definition),
+    usage: completion.usage,
+    provider: context.provider.id,
+    model: completion.model,
+  }
+}
+
+export interface AnalyzeResult extends PromptAnalysis {
+  usage?: Usage
+  provider: string
+  model: string
+  metaPromptVersion: string
+}
+
+// Scores the request's prompt against the meta-prompt without rewriting it.
+// Sampling is pinned to temperature 0 so the same prompt scores the same.
+export async function runAnalysis(context: OptimizeContext, signal?: AbortSignal): Promise<AnalyzeResult> {
+  const { metaPrompt, request } = context
+  const completion = await context.provider.complete({
+    ...context.engineOptions,
+    temperature: 0,
+    messages: buildAnalyzeMessages(metaPrompt, request.prompt),
+    signal,
+  })
+
+  return {
+    ...parseAnalysis(completion.content, metaPrompt, request.prompt),
+    usage: completion.usage,
+    provider: context.provider.id,
+    model: completion.model,
+    metaPromptVersion: metaPrompt.version,
+  }
+}
+
+export async function runOptimization(
+  context: OptimizeContext,
+  strategy?: OptimizationStrategy,
+  signal?: AbortSignal
+): Promise<OptimizeResult> {
+  const completionRequest = buildCompletionRequest(context, strategy, signal)
+  const completion = await context.provider.complete(completionRequest)
+  if (!completion.content) {
+    throw new RequestError('Failed to generate optimized prompt', 500)
+  }
+
+  const { output, usage, compliance, budget } = await enforceCompliance(
+    context,
+    completionRequest,
+    completion.content,
+    completion.usage
+  )
+  return finishRun(context, {
+    ...formatOutput(context, output),
+    strategy,
+    usage,
+    provider: context.provider.id,
+    model: completion.model,
+    metaPromptVersion: context.metaPrompt.version,
+    compliance,
+    budget,
+  })
+}
+
+// Streams the raw tokens as they arrive; the `done` result carries the
+// cleaned-up prompt, which clients should display in place of the raw text
+export async function* streamOptimization(
+  context: OptimizeContext,
+  signal?: AbortSignal
+): AsyncGenerator<OptimizeStreamEvent> {
+  const completionRequest = buildCompletionRequest(context, undefined, signal)
+  let raw = ''
+  let streamUsage: Usage | undefined
+
+  for await (const chunk of context.provider.stream(completionRequest)) {
+    if (chunk.type === 'delta') {
+      raw += chunk.content
+      yield chunk
+    } else {
+      streamUsage = chunk.usage
+    }
+  }
+
+  if (!raw) {
+    throw new RequestError('Failed to generate optimized prompt', 500)
+  }
+
+  const { output, usage, compliance, budget } = await enforceCompliance(context, completionRequest, raw, streamUsage)
+  yield {
+    type: 'done',
+    result: await finishRun(context, {
+      ...formatOutput(context, output),
+      usage,
+      provider: context.provider.id,
+      model: completionRequest.model ?? context.provider.defaultModel,
+      metaPromptVersion: context.metaPrompt.version,
+      compliance,
+      budget,
+    }),
+  }
+}
@@ -0,0 +1,21 @@
+// Template slots such as `{{customer_name}}` or `{product}` that are filled in
+// after optimization, so they have to come through it verbatim. Also loaded
+// by the UI to build the fill-in form.
+const PLACEHOLDER_PATTERN = /\{\{\s*[A-Za-z_][\w.-]*\s*\}\}|\{[A-Za-z_][\w.-]*\}/g
+
+// Every distinct placeholder in the text, exactly as written, in order of
+// first appearance
+export function findPlaceholders(text: string): string[] {
+  return [...new Set(text.match(PLACEHOLDER_PATTERN) ?? [])]
+}
+
+// `{{ customer_name }}` and `{customer_name}` both name `customer_name`
+export function placeholderName(placeholder: string): string {
+  return placeholder.replace(/^\{+\s*|\s*\}+$/g, '')
+}
+
+// Substitutes the values given by name; placeholders without a value are
+// left in place
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder) => values[placeholderName(placeholder)] || placeholder)
+}
@@ -0,0 +1,65 @@
+import { z } from 'zod'
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number
+  output: number
+}
+
+// List prices at the time of writing; override or extend them with
+// MODEL_PRICES rather than editing this table
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet-latest': { input: 3, output: 15 },
+  'claude-3-7-sonnet-latest': { input: 3, output: 15 },
+  'claude-sonnet-4-0': { input: 3, output: 15 },
+  'claude-opus-4-0': { input: 15, output: 75 },
+}
+
+const pricesSchema = z.record(
+  z.object({
+    input: z.number().nonnegative(),
+    output: z.number().nonnegative(),
+  })
+)
+
+// The defaults plus MODEL_PRICES, a JSON object such as
+// {"my-model": {"input": 0.5, "output": 1.5}}. A malformed value is logged
+// and ignored so a pricing typo never takes down the engine settings.
+export function getModelPrices(): Record<string, ModelPrice> {
+  const override = process.env.MODEL_PRICES
+  if (!override) return DEFAULT_MODEL_PRICES
+
+  try {
+    return { ...DEFAULT_MODEL_PRICES, ...pricesSchema.parse(JSON.parse(override)) }
+  } catch (error) {
+    console.error('Ignoring invalid MODEL_PRICES:', error)
+    return DEFAULT_MODEL_PRICES
+  }
+}
+
+// Exact match first, then the longest listed name the model starts with, so
+// dated names such as gpt-4o-mini-2024-07-18 find their base model's price
+export function findModelPrice(prices: Record<string, ModelPrice>, model: string): ModelPrice | undefined {
+  if (prices[model]) return prices[model]
+  const base = Object.keys(prices)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0]
+  return base ? prices[base] : undefined
+}
+
+export function estimateCost(price: ModelPrice, inputTokens: number, outputTokens = 0): number {
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000
+}
+
+// Enough decimals to show two significant digits of sub-cent amounts
+export function formatCost(usd: number): string {
+  if (usd <= 0) return '$0.00'
+  return `$${usd.toFixed(Math.max(2, 1 - Math.floor(Math.log10(usd))))}`
+}
@@ -0,0 +1,75 @@
+import { readdir, readFile } from 'fs/promises'
+import { join } from 'path'
+import { z } from 'zod'
+import { RequestError } from './errors'
+
+export const PROMPTS_DIR = join(process.cwd(), 'prompts')
+
+// Type ids double as file names, so keep them to a safe slug
+const TYPE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/
+
+const manifestSchema = z.object({
+  label: z.string().min(1),
+  icon: z.string().default('📄'),
+  order: z.number().optional(),
+  tips: z.array(z.string()).default([]),
+  advancedFields: z
+    .array(
+      z.object({
+        label: z.string().min(1),
+        placeholder: z.string().default(''),
+      })
+    )
+    .default([]),
+  // Heading for the target selector
+  targetLabel: z.string().default('Target Platform'),
+  // Platforms the output can be formatted for, each defined under `targets`
+  // in the type's meta-prompt front matter
+  targets: z
+    .array(
+      z.object({
+        id: z.string().regex(TYPE_ID_PATTERN),
+        label: z.string().min(1),
+      })
+    )
+    .default([]),
+})
+
+export type PromptTypeManifest = z.infer<typeof manifestSchema>
+
+export interface PromptTypeDefinition extends PromptTypeManifest {
+  id: string
+}
+
+// A prompt type is a `<id>.txt` meta-prompt plus a `<id>.json` manifest
+// describing how the UI presents it. Files missing either half are skipped,
+// as are manifests that fail validation.
+export async function listPromptTypes(): Promise<PromptTypeDefinition[]> {
+  const files = new Set(await readdir(PROMPTS_DIR))
+  const definitions: PromptTypeDefinition[] = []
+
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue
+    const id = file.slice(0, -'.json'.length)
+    if (!TYPE_ID_PATTERN.test(id) || !files.has(`${id}.txt`)) continue
+
+    try {
+      const manifest = manifestSchema.parse(JSON.parse(await readFile(join(PROMPTS_DIR, file), 'utf-8')))
+      definitions.push({ id, ...manifest })
+    } catch (error) {
+      console.error(`Skipping invalid prompt type manifest ${file}:`, error)
+    }
+  }
+
+  return definitions.sort((a, b) =>
+    (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER) || a.label.localeCompare(b.label)
+  )
+}
+
+export async function getPromptType(id: string): Promise<PromptTypeDefinition> {
+  const definition = (await listPromptTypes()).find((type) => type.id === id)
+  if (!definition) {
+    throw new RequestError(`Unknown prompt type: ${id}`)
+  }
+  return definition
+}
@@ -0,0 +1,93 @@
+import Anthropic from '@anthropic-ai/sdk'
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, parseModelList, ProviderError, type ChatMessage, type CompletionRequest, type LLMProvider, type Usage } from './types'
+
+function toUsage(inputTokens: number, outputTokens: number): Usage {
+  return {
+    prompt_tokens: inputTokens,
+    completion_tokens: outputTokens,
+    total_tokens: inputTokens + outputTokens,
+  }
+}
+
+function toProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error
+  if (error instanceof Anthropic.APIError) {
+    return new ProviderError('Provider request failed', error.status ?? 502, error.message)
+  }
+  return new ProviderError('Provider request failed', 502, error instanceof Error ? error.message : 'Unknown error')
+}
+
+// Anthropic takes the system prompt as a top-level field rather than a message.
+// It has no seed parameter, so `seed` is ignored.
+function buildParams(request: CompletionRequest, defaultModel: string) {
+  const system = request.messages
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n\n')
+  const messages = request.messages
+    .filter((message): message is ChatMessage & { role: 'user' | 'assistant' } => message.role !== 'system')
+    .map((message) => ({ role: message.role, content: message.content }))
+
+  return {
+    model: request.model ?? defaultModel,
+    system: system || undefined,
+    messages,
+    temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+    top_p: request.topP,
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+  }
+}
+
+export function createAnthropicProvider(): LLMProvider {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    throw new ProviderError('Anthropic API key not configured')
+  }
+  const client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+  const defaultModel = process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest'
+
+  return {
+    id: 'anthropic',
+    defaultModel,
+    models: parseModelList(process.env.ANTHROPIC_MODELS, defaultModel),
+
+    async complete(request) {
+      try {
+        const message = await client.messages.create(
+          buildParams(request, defaultModel),
+          { signal: request.signal }
+        )
+        const content = message.content
+          .map((block) => (block.type === 'text' ? block.text : ''))
+          .join('')
+        return {
+          content,
+          model: message.model,
+          usage: toUsage(message.usage.input_tokens, message.usage.output_tokens),
+        }
+      } catch (error) {
+        throw toProviderError(error)
+      }
+    },
+
+    async *stream(request) {
+      try {
+        const events = await client.messages.create(
+          { ...buildParams(request, defaultModel), stream: true },
+          { signal: request.signal }
+        )
+        let inputTokens = 0
+        for await (const event of events) {
+          if (event.type === 'message_start') {
+            inputTokens = event.message.usage.input_tokens
+          } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+            yield { type: 'delta', content: event.delta.text }
+          } else if (event.type === 'message_delta') {
+            yield { type: 'usage', usage: toUsage(inputTokens, event.usage.output_tokens) }
+          }
+        }
+      } catch (error) {
+        throw toProviderError(error)
+      }
+    },
+  }
+}
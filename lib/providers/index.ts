@@ -0,0 +1,35 @@
+import { createAnthropicProvider } from './anthropic'
+import { createAzureOpenAIProvider, createLocalProvider, createOpenAIProvider } from './openai'
+import { ProviderError, type LLMProvider, type ProviderId } from './types'
+
+export * from './types'
+
+const providerFactories: Record<ProviderId, () => LLMProvider> = {
+  openai: createOpenAIProvider,
+  anthropic: createAnthropicProvider,
+  azure: createAzureOpenAIProvider,
+  local: createLocalProvider,
+}
+
+const providers = new Map<ProviderId, LLMProvider>()
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && value in providerFactories
+}
+
+// Resolves the provider for a request: an explicit id wins, otherwise the
+// LLM_PROVIDER env var, otherwise OpenAI. Clients are created lazily and
+// reused across requests.
+export function getProvider(id?: string): LLMProvider {
+  const providerId = id || process.env.LLM_PROVIDER || 'openai'
+  if (!isProviderId(providerId)) {
+    throw new ProviderError(`Unknown provider: ${providerId}`, 400)
+  }
+
+  let provider = providers.get(providerId)
+  if (!provider) {
+    provider = providerFactories[providerId]()
+    providers.set(providerId, provider)
+  }
+  return provider
+}
@@ -0,0 +1,115 @@
+import OpenAI, { AzureOpenAI } from 'openai'
+import { DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, parseModelList, ProviderError, type CompletionRequest, type LLMProvider, type ProviderId, type Usage } from './types'
+
+function toUsage(usage: OpenAI.CompletionUsage | null | undefined): Usage | undefined {
+  if (!usage) return undefined
+  return {
+    prompt_tokens: usage.prompt_tokens,
+    completion_tokens: usage.completion_tokens,
+    total_tokens: usage.total_tokens,
+  }
+}
+
+function toProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error
+  if (error instanceof OpenAI.APIError) {
+    return new ProviderError('Provider request failed', error.status ?? 502, error.message)
+  }
+  return new ProviderError('Provider request failed', 502, error instanceof Error ? error.message : 'Unknown error')
+}
+
+function buildParams(request: CompletionRequest, defaultModel: string) {
+  return {
+    model: request.model ?? defaultModel,
+    messages: request.messages,
+    temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+    top_p: request.topP,
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    seed: request.seed,
+  }
+}
+
+// Wraps any client that speaks the OpenAI chat completions API. OpenAI, Azure
+// OpenAI and local servers such as Ollama or llama.cpp only differ in how the
+// client is constructed.
+function createChatCompletionsProvider(id: ProviderId, client: OpenAI, defaultModel: string, models: string[]): LLMProvider {
+  return {
+    id,
+    defaultModel,
+    models,
+
+    async complete(request) {
+      try {
+        const completion = await client.chat.completions.create(
+          buildParams(request, defaultModel),
+          { signal: request.signal }
+        )
+        return {
+          content: completion.choices[0]?.message?.content ?? '',
+          model: completion.model,
+          usage: toUsage(completion.usage),
+        }
+      } catch (error) {
+        throw toProviderError(error)
+      }
+    },
+
+    async *stream(request) {
+      try {
+        const completion = await client.chat.completions.create(
+          { ...buildParams(request, defaultModel), stream: true, stream_options: { include_usage: true } },
+          { signal: request.signal }
+        )
+        for await (const chunk of completion) {
+          const content = chunk.choices[0]?.delta?.content
+          if (content) {
+            yield { type: 'delta', content }
+          }
+          const usage = toUsage(chunk.usage)
+          if (usage) {
+            yield { type: 'usage', usage }
+          }
+        }
+      } catch (error) {
+        throw toProviderError(error)
+      }
+    },
+  }
+}
+
+export function createOpenAIProvider(): LLMProvider {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new ProviderError('OpenAI API key not configured')
+  }
+  const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  const defaultModel = process.env.OPENAI_MODEL || 'gpt-4o-mini'
+  return createChatCompletionsProvider('openai', client, defaultModel, parseModelList(process.env.OPENAI_MODELS, defaultModel))
+}
+
+export function createAzureOpenAIProvider(): LLMProvider {
+  if (!process.env.AZURE_OPENAI_API_KEY || !process.env.AZURE_OPENAI_ENDPOINT) {
+    throw new ProviderError('Azure OpenAI API key or endpoint not configured')
+  }
+  if (!process.env.AZURE_OPENAI_DEPLOYMENT) {
+    throw new ProviderError('Azure OpenAI deployment not configured')
+  }
+  // No fixed deployment on the client: the SDK routes each request to the
+  // deployment named by its `model`, which lets requests pick between them
+  const client = new AzureOpenAI({
+    apiKey: process.env.AZURE_OPENAI_API_KEY,
+    endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+    apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+  })
+  const defaultModel = process.env.AZURE_OPENAI_DEPLOYMENT
+  return createChatCompletionsProvider('azure', client, defaultModel, parseModelList(process.env.AZURE_OPENAI_DEPLOYMENTS, defaultModel))
+}
+
+export function createLocalProvider(): LLMProvider {
+  const client = new OpenAI({
+    baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+    // Local servers ignore the key, but the SDK refuses to start without one
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+  })
+  const defaultModel = process.env.LOCAL_LLM_MODEL || 'llama3.1'
+  return createChatCompletionsProvider('local', client, defaultModel, parseModelList(process.env.LOCAL_LLM_MODELS, defaultModel))
+}
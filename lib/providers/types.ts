@@ -0,0 +1,76 @@
+import { RequestError } from '../errors'
+
+export const DEFAULT_TEMPERATURE = 0.7
+export const DEFAULT_MAX_TOKENS = 1500
+
+export type ProviderId = 'openai' | 'anthropic' | 'azure' | 'local'
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+// Token usage in the shape the optimize route has always returned, so clients
+// see the same fields whichever backend produced the completion.
+export interface Usage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[]
+  model?: string
+  temperature?: number
+  topP?: number
+  maxTokens?: number
+  seed?: number
+  signal?: AbortSignal
+}
+
+export interface CompletionResult {
+  content: string
+  model: string
+  usage?: Usage
+}
+
+export type StreamChunk =
+  | { type: 'delta'; content: string }
+  | { type: 'usage'; usage: Usage }
+
+export interface LLMProvider {
+  // A ProviderId for the built-in providers
+  id: string
+  defaultModel: string
+  // Models a request may ask for; always includes the default
+  models: string[]
+  complete(request: CompletionRequest): Promise<CompletionResult>
+  stream(request: CompletionRequest): AsyncIterable<StreamChunk>
+}
+
+export class ProviderError extends RequestError {
+  constructor(message: string, status = 500, details?: string) {
+    super(message, status, details)
+    this.name = 'ProviderError'
+  }
+}
+
+// Parses a comma-separated allow-list such as OPENAI_MODELS, keeping the
+// provider's default model first.
+export function parseModelList(value: string | undefined, defaultModel: string): string[] {
+  const models = (value ?? '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean)
+  return [defaultModel, ...models.filter((model) => model !== defaultModel)]
+}
+
+export function addUsage(total: Usage | undefined, usage: Usage | undefined): Usage | undefined {
+  if (!total) return usage
+  if (!usage) return total
+  return {
+    prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: total.completion_tokens + usage.completion_tokens,
+    total_tokens: total.total_tokens + usage.total_tokens,
+  }
+}
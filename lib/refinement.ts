@@ -0,0 +1,42 @@
+import { z } from 'zod'
+import { RequestError } from './errors'
+
+export const MAX_REVISIONS = 20
+
+const instructionSchema = z.string().trim().min(1).max(2000)
+
+const revisionSchema = z.object({
+  // The change that produced this revision; the first revision is the
+  // original optimization and has none
+  instruction: instructionSchema.optional(),
+  optimizedPrompt: z.string().min(1),
+  negativePrompt: z.string().optional(),
+  sections: z.array(z.object({ name: z.string(), content: z.string() })).optional(),
+})
+
+export const refinementSchema = z
+  .object({
+    // Every revision so far, oldest first. The last one is what gets edited,
+    // including any changes made to it by hand.
+    revisions: z.array(revisionSchema).min(1).max(MAX_REVISIONS),
+    instruction: instructionSchema,
+  })
+  .strict()
+  .refine((refinement) => refinement.revisions.slice(1).every((revision) => revision.instruction), {
+    message: 'Every revision after the first needs the instruction that produced it',
+    path: ['revisions'],
+  })
+
+export type Refinement = z.infer<typeof refinementSchema>
+export type Revision = Refinement['revisions'][number]
+
+export function parseRefinement(value: unknown): Refinement | undefined {
+  if (value === undefined || value === null) return undefined
+
+  const parsed = refinementSchema.safeParse(value)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new RequestError('Invalid refinement', 400, `${issue.path.join('.') || 'refinement'}: ${issue.message}`)
+  }
+  return parsed.data
+}
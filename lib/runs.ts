@@ -0,0 +1,82 @@
+import { randomUUID } from 'crypto'
+import type { OutputSection } from './meta-prompt'
+import type { Usage } from './providers'
+import { appendRecord, readRecords } from './store'
+
+// One completed optimization, kept so outputs can be traced back to the
+// meta-prompt version and model that produced them
+export interface RunRecord {
+  id: string
+  createdAt: string
+  type: string
+  metaPromptVersion: string
+  provider: string
+  model: string
+  prompt: string
+  advancedFields?: Record<string, string>
+  strategy?: string
+  mode?: string
+  // The refinement instruction, when the run edited an earlier output
+  instruction?: string
+  target?: string
+  output: string
+  negativePrompt?: string
+  sections?: OutputSection[]
+  usage?: Usage
+}
+
+export interface RunFeedback {
+  runId: string
+  createdAt: string
+  rating: 1 | -1
+  comment?: string
+}
+
+export async function recordRun(run: Omit<RunRecord, 'id' | 'createdAt'>): Promise<RunRecord> {
+  const record: RunRecord = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    ...run,
+  }
+  await appendRecord('runs', record)
+  return record
+}
+
+export function listRuns(): Promise<RunRecord[]> {
+  return readRecords<RunRecord>('runs')
+}
+
+export async function findRun(id: string): Promise<RunRecord | undefined> {
+  return (await listRuns()).find((run) => run.id === id)
+}
+
+export async function recordFeedback(feedback: Omit<RunFeedback, 'createdAt'>): Promise<RunFeedback> {
+  const record: RunFeedback = {
+    ...feedback,
+    createdAt: new Date().toISOString(),
+  }
+  await appendRecord('feedback', record)
+  return record
+}
+
+export function listFeedback(): Promise<RunFeedback[]> {
+  return readRecords<RunFeedback>('feedback')
+}
+
+export interface RatedRun extends RunRecord {
+  rating: 1 | -1
+  comment?: string
+  ratedAt: string
+}
+
+// Runs joined with their latest feedback; unrated runs are left out
+export async function listRatedRuns(): Promise<RatedRun[]> {
+  const [runs, feedback] = await Promise.all([listRuns(), listFeedback()])
+  const latest = new Map<string, RunFeedback>()
+  feedback.forEach((entry) => latest.set(entry.runId, entry))
+
+  return runs.flatMap((run) => {
+    const entry = latest.get(run.id)
+    return entry ? [{ ...run, rating: entry.rating, comment: entry.comment, ratedAt: entry.createdAt }] : []
+  })
+}
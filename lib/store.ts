@@ -0,0 +1,36 @@
+import { appendFile, mkdir, readFile } from 'fs/promises'
+import { join } from 'path'
+
+// Server-side records are kept as JSON Lines files, one per collection, under
+// GIOPROMPT_DATA_DIR (default `.data` in the project root)
+export const DATA_DIR = process.env.GIOPROMPT_DATA_DIR || join(process.cwd(), '.data')
+
+function collectionPath(collection: string): string {
+  return join(DATA_DIR, `${collection}.jsonl`)
+}
+
+export async function appendRecord<T>(collection: string, record: T): Promise<void> {
+  await mkdir(DATA_DIR, { recursive: true })
+  await appendFile(collectionPath(collection), `${JSON.stringify(record)}\n`, 'utf-8')
+}
+
+export async function readRecords<T>(collection: string): Promise<T[]> {
+  let content: string
+  try {
+    content = await readFile(collectionPath(collection), 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+
+  const records: T[] = []
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue
+    try {
+      records.push(JSON.parse(line))
+    } catch {
+      // A crash mid-append can leave a truncated last line; skip it
+    }
+  }
+  return records
+}
@@ -0,0 +1,109 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises'
+import { extname, join } from 'path'
+import { parse, stringify } from 'yaml'
+import { z } from 'zod'
+import { RequestError } from './errors'
+import { getPromptType, listPromptTypes } from './prompt-types'
+
+// Starter templates live in `templates/<type>/<id>.yaml` (or `.yml`, `.json`),
+// next to the meta-prompts in `prompts/`
+export const TEMPLATES_DIR = join(process.cwd(), 'templates')
+
+const TEMPLATE_EXTENSIONS = ['.yaml', '.yml', '.json']
+
+const templateSchema = z
+  .object({
+    label: z.string().trim().min(1).max(100),
+    description: z.string().trim().max(500).default(''),
+    prompt: z.string().min(1),
+    // Keyed by the type's advanced field labels
+    advancedFields: z.record(z.string()).default({}),
+    // Target platform id from the type's manifest
+    target: z.string().optional(),
+  })
+  .strict()
+
+export type TemplateFile = z.infer<typeof templateSchema>
+
+export interface PromptTemplate extends TemplateFile {
+  id: string
+  type: string
+}
+
+function templateId(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+async function listTemplateFiles(type: string): Promise<string[]> {
+  try {
+    return (await readdir(join(TEMPLATES_DIR, type))).filter((file) => TEMPLATE_EXTENSIONS.includes(extname(file)))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+}
+
+// Templates for one type, or for every type, sorted by type and label. Files
+// that fail validation are skipped, as are the directories of unknown types.
+export async function listTemplates(type?: string): Promise<PromptTemplate[]> {
+  const types = type === undefined ? (await listPromptTypes()).map((definition) => definition.id) : [(await getPromptType(type)).id]
+  const templates: PromptTemplate[] = []
+
+  for (const typeId of types) {
+    for (const file of await listTemplateFiles(typeId)) {
+      try {
+        const content = await readFile(join(TEMPLATES_DIR, typeId, file), 'utf-8')
+        const data = extname(file) === '.json' ? JSON.parse(content) : parse(content)
+        templates.push({ id: file.slice(0, -extname(file).length), type: typeId, ...templateSchema.parse(data) })
+      } catch (error) {
+        console.error(`Skipping invalid template ${typeId}/${file}:`, error)
+      }
+    }
+  }
+
+  return templates.sort((a, b) => a.type.localeCompare(b.type) || a.label.localeCompare(b.label))
+}
+
+// Writes a new YAML template, named after its label. Advanced fields and the
+// target are checked against the type's manifest; blank fields are dropped.
+export async function saveTemplate(type: string, input: unknown): Promise<PromptTemplate> {
+  const definition = await getPromptType(type)
+  const parsed = templateSchema.safeParse(input)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new RequestError('Invalid template', 400, `${issue.path.join('.') || 'template'}: ${issue.message}`)
+  }
+
+  const template = parsed.data
+  const labels = new Set(definition.advancedFields.map((field) => field.label))
+  const unknownField = Object.keys(template.advancedFields).find((label) => !labels.has(label))
+  if (unknownField !== undefined) {
+    throw new RequestError(`Unknown ${type} advanced field: ${unknownField}`)
+  }
+  if (template.target !== undefined && !definition.targets.some((target) => target.id === template.target)) {
+    throw new RequestError(`Unknown ${type} target: ${template.target}`)
+  }
+
+  const id = templateId(template.label)
+  if (!id) {
+    throw new RequestError('Template label needs at least one letter or digit')
+  }
+  const existing = await listTemplateFiles(type)
+  if (existing.some((file) => file.slice(0, -extname(file).length) === id)) {
+    throw new RequestError(`A template named ${id} already exists for ${type}`, 409)
+  }
+
+  const file: TemplateFile = {
+    label: template.label,
+    description: template.description,
+    prompt: template.prompt,
+    advancedFields: Object.fromEntries(Object.entries(template.advancedFields).filter(([, value]) => value.trim())),
+    target: template.target,
+  }
+  await mkdir(join(TEMPLATES_DIR, type), { recursive: true })
+  await writeFile(join(TEMPLATES_DIR, type, `${id}.yaml`), stringify(file, { lineWidth: 0 }), { encoding: 'utf-8', flag: 'wx' })
+  return { id, type, ...file }
+}
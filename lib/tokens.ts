@@ -0,0 +1,31 @@
+import type { Tiktoken } from 'js-tiktoken/lite'
+
+export type TokenEncoding = 'o200k_base' | 'cl100k_base'
+
+// GPT-4 (before 4o), GPT-3.5 and the older embedding models use cl100k_base.
+// Everything else is counted with o200k_base, which is exact for GPT-4o and
+// later and an approximation for Claude and local models.
+export function encodingForModel(model?: string): TokenEncoding {
+  return model && /^(gpt-4(?![o.])|gpt-3\.?5|text-embedding-(ada|3))/.test(model) ? 'cl100k_base' : 'o200k_base'
+}
+
+const tokenizers = new Map<TokenEncoding, Promise<Tiktoken>>()
+
+// The rank tables run to megabytes, so each one is loaded on first use
+export function loadTokenizer(encoding: TokenEncoding = 'o200k_base'): Promise<Tiktoken> {
+  let tokenizer = tokenizers.get(encoding)
+  if (!tokenizer) {
+    const ranks = encoding === 'cl100k_base' ? import('js-tiktoken/ranks/cl100k_base') : import('js-tiktoken/ranks/o200k_base')
+    tokenizer = Promise.all([import('js-tiktoken/lite'), ranks]).then(([{ Tiktoken }, { default: bpe }]) => new Tiktoken(bpe))
+    tokenizer.catch(() => tokenizers.delete(encoding))
+    tokenizers.set(encoding, tokenizer)
+  }
+  return tokenizer
+}
+
+// Special tokens such as <|endoftext|> are counted as ordinary text, since
+// that is how a prompt containing them reaches the model
+export async function countTokens(text: string, encoding?: TokenEncoding): Promise<number> {
+  if (!text) return 0
+  return (await loadTokenizer(encoding)).encode(text, [], []).length
+}